@@ -0,0 +1,114 @@
+import { satisfies, valid } from "semver";
+import { convertSwagger } from "./swagger2";
+import { ISchemaObject, OpenAPIObject } from "./types/OpenApi";
+import { SwaggerObject } from "./types/Swagger";
+import { createDiagnostics, Diagnostics } from "./diagnostics";
+
+export type SpecificationVersion = "2.0" | "3.0" | "3.1";
+
+const supportedVersions: { version: SpecificationVersion, range: string }[] = [
+  { version: "3.0", range: "~3.0.0" },
+  { version: "3.1", range: "~3.1.0" }
+];
+
+/**
+ * Determines which supported version of the specification given document adheres to.
+ */
+export function getSpecificationVersion(definition: { openapi?: string, swagger?: string }): SpecificationVersion {
+  if (definition.swagger === "2.0") return "2.0";
+  const declared = definition.openapi;
+  if (typeof declared !== "string" || !valid(declared)) throw new Error(`expected a Swagger 2.0, OpenAPI 3.0.x or 3.1.x document, found version '${declared || definition.swagger}'`);
+  for (const supported of supportedVersions) {
+    if (satisfies(declared, supported.range)) return supported.version;
+  }
+  throw new Error(`OpenAPI ${declared} is not supported (expected 3.0.x or 3.1.x)`);
+}
+
+/**
+ * Maps given document onto the shape the modeler consumes (OpenAPI 3.0 plus `webhooks`).
+ * Schemas are adapted individually, see `adaptSchema`.
+ * @param diagnostics Sink for problems found while converting, which also learns where converted nodes originate from.
+ */
+export function adaptDocument(definition: OpenAPIObject | SwaggerObject, diagnostics: Diagnostics = createDiagnostics(definition)): OpenAPIObject {
+  switch (getSpecificationVersion(definition)) {
+    case "2.0":
+      return convertSwagger(definition as SwaggerObject, diagnostics);
+    case "3.0":
+      return definition as OpenAPIObject;
+    case "3.1":
+      // `paths` and `components` became optional
+      const openapiDefinition = definition as OpenAPIObject;
+      const result = Object.assign({}, openapiDefinition, {
+        paths: openapiDefinition.paths || {},
+        components: openapiDefinition.components || {}
+      });
+      diagnostics.origins.set(result, definition);
+      return result;
+  }
+}
+
+/**
+ * Maps JSON Schema 2020-12 constructs of OpenAPI 3.1 onto their OpenAPI 3.0 equivalent.
+ * Schemas that only use 3.0 constructs are returned as they are.
+ */
+export function adaptSchema(schema: ISchemaObject): ISchemaObject {
+  if (!Array.isArray(schema.type)
+    && schema.const === undefined
+    && typeof schema.exclusiveMinimum !== "number"
+    && typeof schema.exclusiveMaximum !== "number"
+    && schema.contentEncoding === undefined
+    && schema.contentMediaType === undefined) {
+    return schema;
+  }
+
+  const result: ISchemaObject = Object.assign({}, schema);
+
+  // const
+  if (result.const !== undefined) {
+    result.enum = [result.const];
+    delete result.const;
+  }
+
+  // numeric exclusive bounds
+  if (typeof result.exclusiveMinimum === "number") {
+    result.minimum = result.exclusiveMinimum;
+    result.exclusiveMinimum = true;
+  }
+  if (typeof result.exclusiveMaximum === "number") {
+    result.maximum = result.exclusiveMaximum;
+    result.exclusiveMaximum = true;
+  }
+
+  // binary content
+  if (result.contentEncoding === "base64" || result.contentEncoding === "base64url") {
+    result.format = result.format || "byte";
+  } else if (result.contentMediaType === "application/octet-stream") {
+    result.format = result.format || "binary";
+  }
+  delete result.contentEncoding;
+  delete result.contentMediaType;
+
+  // type arrays
+  if (Array.isArray(result.type)) {
+    const types = result.type.filter(type => type !== "null");
+    if (types.length !== result.type.length) result.nullable = true;
+    if (types.length === 0) {
+      result.type = "null";
+      result.nullable = false;
+    } else if (types.length === 1) {
+      result.type = types[0];
+    } else {
+      // one alternative per type, sharing all other keywords
+      const alternatives = types.map(type => Object.assign({}, result, { type: type, nullable: false, $path: undefined }));
+      return {
+        nullable: result.nullable,
+        anyOf: alternatives,
+        title: result.title,
+        description: result.description,
+        $path: result.$path
+      };
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "fs";
+import { resolve as resolvePath } from "path";
+import { safeDump } from "js-yaml";
+import { ReadUri } from "./index";
+import { resolve, stripPaths } from "./object-resolver";
+import { run } from "./modeler";
+import { Diagnostic, loadYaml } from "./diagnostics";
+import { escapePointerPart } from "./json-pointer";
+import { createMockServer } from "./mock-server";
+import { createRouter } from "./router";
+import { diffModels } from "./diff";
+import { emitDocument } from "./emitter";
+import { lint, LintConfig, LintResult, loadLintConfig } from "./lint";
+
+const usage = `usage: openapi3-normalizer [options] [<file or URI>...]
+
+Normalizes the given OpenAPI documents (or the one read from stdin if none is given, or '-').
+
+options:
+  --format json|yaml   output format (default: yaml)
+  --output <file>      write output to given file instead of stdout
+  --validate-only      only report diagnostics, exit code 1 if there are any
+  --lint               check the documents against the lint rules as well (lint errors count as diagnostics)
+  --lint-config <file> JSON or YAML file configuring the severity of lint rules, e.g. 'rules: { response-4xx: off }'
+  --resolve-only       emit the dereferenced document instead of the model
+  --openapi            emit the normalized OpenAPI 3.0 document instead of the model
+  --mock <port>        serve mock responses for the operations of the (single) document
+  --diff               report the changes from the first to the second document, exit code 1 if any are breaking
+  --help               show this message`;
+
+interface Options {
+  inputs: string[];
+  format: "json" | "yaml";
+  output?: string;
+  validateOnly: boolean;
+  lint: boolean;
+  lintConfig?: LintConfig;
+  resolveOnly: boolean;
+  openapi: boolean;
+  mockPort?: number;
+  diff: boolean;
+  help: boolean;
+}
+
+function parseArguments(args: string[]): Options {
+  const options: Options = { inputs: [], format: "yaml", validateOnly: false, lint: false, resolveOnly: false, openapi: false, diff: false, help: false };
+  const takeValue = (name: string): string => {
+    const value = args.shift();
+    if (value === undefined) throw new Error(`missing value for '${name}'`);
+    return value;
+  };
+  while (args.length !== 0) {
+    const arg = args.shift() as string;
+    switch (arg) {
+      case "--format":
+        const format = takeValue(arg);
+        if (format !== "json" && format !== "yaml") throw new Error(`unknown format '${format}' (expected 'json' or 'yaml')`);
+        options.format = format;
+        break;
+      case "--output":
+        options.output = takeValue(arg);
+        break;
+      case "--validate-only":
+        options.validateOnly = true;
+        break;
+      case "--lint":
+        options.lint = true;
+        break;
+      case "--lint-config":
+        const file = takeValue(arg);
+        options.lintConfig = loadLintConfig(readFileSync(file, "utf8"));
+        options.lint = true;
+        break;
+      case "--resolve-only":
+        options.resolveOnly = true;
+        break;
+      case "--openapi":
+        options.openapi = true;
+        break;
+      case "--mock":
+        const port = takeValue(arg);
+        if (!port.match(/^[0-9]+$/) || +port > 65535) throw new Error(`invalid port '${port}'`);
+        options.mockPort = +port;
+        break;
+      case "--diff":
+        options.diff = true;
+        break;
+      case "--help":
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith("--")) throw new Error(`unknown option '${arg}'`);
+        options.inputs.push(arg);
+        break;
+    }
+  }
+  if (options.validateOnly && options.resolveOnly) throw new Error("'--validate-only' and '--resolve-only' are mutually exclusive");
+  if (options.mockPort !== undefined && (options.validateOnly || options.resolveOnly)) throw new Error("'--mock' cannot be combined with '--validate-only' or '--resolve-only'");
+  if (options.openapi && (options.resolveOnly || options.mockPort !== undefined || options.diff)) throw new Error("'--openapi' cannot be combined with '--resolve-only', '--mock' or '--diff'");
+  if (options.diff && (options.validateOnly || options.resolveOnly || options.mockPort !== undefined)) throw new Error("'--diff' cannot be combined with '--validate-only', '--resolve-only' or '--mock'");
+  if (options.inputs.length === 0) options.inputs.push("-");
+  if (options.mockPort !== undefined && options.inputs.length !== 1) throw new Error("'--mock' expects a single document");
+  if (options.diff && options.inputs.length !== 2) throw new Error("'--diff' expects two documents");
+  return options;
+}
+
+/**
+ * Turns file paths into file URIs, leaves URIs untouched.
+ */
+function toUri(input: string): string {
+  if (input.match(/^[a-z][a-z0-9+.-]+:/i)) return input;
+  const path = resolvePath(input).replace(/\\/g, "/");
+  return "file://" + (path.startsWith("/") ? "" : "/") + encodeURI(path);
+}
+
+function readStdin(): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    let result = "";
+    process.stdin.setEncoding("utf8");
+    process.stdin.on("data", (data: string) => result += data);
+    process.stdin.on("end", () => resolve(result));
+    process.stdin.on("error", (err: Error) => reject(err));
+  });
+}
+
+/**
+ * Serializes given object graph as JSON, expressing repeated (shared or circular) nodes as references to their first occurrence.
+ */
+function toJson(value: any): string {
+  const seen = new Map<object, string>();
+  const convert = (node: any, pointer: string): any => {
+    if (typeof node !== "object" || node === null) return node;
+    const firstPointer = seen.get(node);
+    if (firstPointer !== undefined) return { $ref: "#" + firstPointer };
+    seen.set(node, pointer);
+    if (Array.isArray(node)) return node.map((item, index) => convert(item, `${pointer}/${index}`));
+    const result: any = {};
+    for (const key of Object.keys(node)) {
+      if (node[key] !== undefined) {
+        result[key] = convert(node[key], `${pointer}/${escapePointerPart(key)}`);
+      }
+    }
+    return result;
+  };
+  return JSON.stringify(convert(value, ""), null, 2);
+}
+
+function formatDiagnostic(diagnostic: Diagnostic | LintResult, documentUri: string): string {
+  const position = diagnostic.line !== undefined ? `:${diagnostic.line}:${diagnostic.column}` : "";
+  const pointer = diagnostic.pointer !== undefined ? ` (#${diagnostic.pointer})` : "";
+  const code = "rule" in diagnostic ? diagnostic.rule : diagnostic.code;
+  return `${diagnostic.documentUri || documentUri}${position}: ${diagnostic.severity} ${code}: ${diagnostic.message}${pointer}`;
+}
+
+async function processInput(options: Options, input: string): Promise<{ output: any, diagnostics: number }> {
+  // relative references of documents read from stdin are relative to the working directory
+  const documentUri = input === "-" ? toUri(process.cwd()) + "/" : toUri(input);
+  const rawDef = input === "-" ? await readStdin() : await ReadUri(documentUri);
+  const def = loadYaml(rawDef);
+  await resolve(def, documentUri);
+  if (options.resolveOnly) {
+    return { output: stripPaths(def), diagnostics: 0 };
+  }
+
+  const result = run(def, documentUri);
+  // ambiguous paths are only detected when compiling the operations into a router
+  const diagnostics = result.diagnostics.concat(createRouter(result.model, def, documentUri).diagnostics);
+  const lintResults = options.lint ? lint(def, result.model, options.lintConfig, undefined, documentUri) : [];
+  for (const diagnostic of (diagnostics as (Diagnostic | LintResult)[]).concat(lintResults)) {
+    console.error(formatDiagnostic(diagnostic, input === "-" ? "<stdin>" : documentUri));
+  }
+  const lintErrors = lintResults.filter(lintResult => lintResult.severity === "error").length;
+  return { output: options.openapi ? emitDocument(result.model) : result.model, diagnostics: diagnostics.length + lintErrors };
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: Options;
+  try {
+    options = parseArguments(args);
+  } catch (e) {
+    console.error(`${e.message}\n\n${usage}`);
+    return 2;
+  }
+  if (options.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  try {
+    const outputs: any[] = [];
+    let diagnostics = 0;
+    for (const input of options.inputs) {
+      const result = await processInput(options, input);
+      outputs.push(result.output);
+      diagnostics += result.diagnostics;
+    }
+    if (options.validateOnly) {
+      return diagnostics === 0 ? 0 : 1;
+    }
+    if (options.mockPort !== undefined) {
+      const server = createMockServer(outputs[0]);
+      await new Promise<void>((resolve, reject) => {
+        server.on("error", reject);
+        server.listen(options.mockPort, () => {
+          console.error(`mock server listening on http://localhost:${options.mockPort}/`);
+        });
+        server.on("close", () => resolve());
+      });
+      return 0;
+    }
+
+    const report = options.diff ? diffModels(outputs[0], outputs[1]) : undefined;
+    const result = report ? [report] : outputs;
+    const text = options.format === "json"
+      ? toJson(result.length === 1 ? result[0] : result) + "\n"
+      : result.map(output => safeDump(output, { skipInvalid: true })).join("---\n");
+    if (options.output) {
+      writeFileSync(options.output, text);
+    } else {
+      process.stdout.write(text);
+    }
+    return report && report.breaking ? 1 : 0;
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    return 2;
+  }
+}
+
+main(process.argv.slice(2)).then(exitCode => process.exitCode = exitCode);
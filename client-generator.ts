@@ -0,0 +1,198 @@
+import { formatPath, Method, Model } from "./modeler";
+import { formatComment, generateDeclarations, getOperationNames } from "./dts-generator";
+
+export interface ClientGeneratorOptions {
+  // module the generated client imports the parameter serializer from (default: "openapi3-normalizer/serializer")
+  runtimeModule?: string;
+}
+
+// types declared by the runtime, and global ones it refers to, which declarations of schemas must not shadow
+const runtimeNames = ["ClientRequest", "ClientResponse", "SecurityHook", "ClientOptions", "OperationDescriptor", "ResponseBody", "Promise"];
+
+// runtime part of every generated client
+const runtime = `
+export interface ClientRequest {
+  method: string;
+  url: string;
+  headers: { [name: string]: string };
+  body?: any;
+}
+
+export interface ClientResponse<T> {
+  status: number;
+  headers: { [name: string]: string };
+  body: T;
+}
+
+/**
+ * Adds credentials for a security scheme to given request, e.g. an "Authorization" header.
+ */
+export type SecurityHook = (request: ClientRequest, scopes: string[]) => void | Promise<void>;
+
+export interface ClientOptions {
+  // base URL to use instead of the operation's servers
+  baseUrl?: string;
+  // index into the operation's servers (default: 0) and values of their variables (default: as declared)
+  server?: number;
+  serverVariables?: { [name: string]: string };
+  // credentials, keyed by security scheme name
+  security?: { [scheme: string]: SecurityHook };
+  // defaults to the global \`fetch\`
+  fetch?: (url: string, init: any) => Promise<any>;
+}
+
+interface OperationDescriptor {
+  method: string;
+  path: string;
+  servers: { url: string, variables: { [name: string]: string } }[];
+  parameters: any[];
+  requestBody?: { mediaType: string, encoding: { [property: string]: any } };
+  // alternatives, each requiring all of its schemes
+  security: { scheme: string, scopes: string[] }[][];
+}
+
+type ResponseBody<K extends keyof Operations> = Operations[K]["responses"][keyof Operations[K]["responses"]];
+
+function getBaseUrl(options: ClientOptions, operation: OperationDescriptor): string {
+  if (options.baseUrl !== undefined) return options.baseUrl.replace(/\\/$/, "");
+  const server = operation.servers[options.server || 0];
+  if (!server) throw new Error(\`no server \${options.server || 0} declared for '\${operation.method.toUpperCase()} \${operation.path}'\`);
+  const values = options.serverVariables || {};
+  return server.url.replace(/\\{([^}]*)\\}/g, (_, name: string) => values[name] !== undefined ? values[name] : server.variables[name]).replace(/\\/$/, "");
+}
+
+function serializeBody(operation: OperationDescriptor, body: any): string | undefined {
+  const requestBody = operation.requestBody;
+  if (!requestBody || body === undefined) return undefined;
+  if (requestBody.mediaType.match(/^application\\/([^;]+\\+)?json/i)) return JSON.stringify(body);
+  if (requestBody.mediaType === "application/x-www-form-urlencoded") {
+    const defaultEncoding = { contentType: "text/plain", headers: [], format: { style: "form", explode: true }, allowReserved: false };
+    return Object.keys(body).filter(name => body[name] !== undefined)
+      .map(name => serializeEncoding(name, requestBody.encoding[name] || defaultEncoding, body[name])).join("&");
+  }
+  return body;
+}
+
+async function send(options: ClientOptions, operation: OperationDescriptor, parameters: any, body: any): Promise<ClientResponse<any>> {
+  let path = operation.path;
+  const query: string[] = [];
+  const cookies: string[] = [];
+  const headers: { [name: string]: string } = {};
+  for (const parameter of operation.parameters) {
+    const value = (parameters[parameter.location] || {})[parameter.name];
+    if (value === undefined) {
+      if (parameter.required) throw new Error(\`missing required \${parameter.location} parameter '\${parameter.name}'\`);
+      continue;
+    }
+    const serialized = serializeParameter(parameter, value);
+    switch (parameter.location) {
+      case "path": path = path.split(\`{\${parameter.name}}\`).join(serialized); break;
+      case "query": query.push(serialized); break;
+      case "header": headers[parameter.name] = serialized; break;
+      case "cookie": cookies.push(serialized); break;
+    }
+  }
+  if (cookies.length !== 0) headers["Cookie"] = cookies.join("; ");
+  if (operation.requestBody && body !== undefined) headers["Content-Type"] = operation.requestBody.mediaType;
+
+  const request: ClientRequest = {
+    method: operation.method.toUpperCase(),
+    url: getBaseUrl(options, operation) + path + (query.length === 0 ? "" : "?" + query.join("&")),
+    headers: headers,
+    body: serializeBody(operation, body)
+  };
+
+  // the first alternative all credentials are available for applies, an empty one means none are needed
+  const hooks = options.security || {};
+  const alternative = operation.security.length === 0 ? [] : operation.security.filter(requirements => requirements.every(requirement => requirement.scheme in hooks))[0];
+  if (!alternative) throw new Error(\`no credentials for any of the security requirements of '\${request.method} \${operation.path}'\`);
+  for (const requirement of alternative) {
+    await hooks[requirement.scheme](request, requirement.scopes);
+  }
+
+  const fetch = options.fetch || (typeof globalThis !== "undefined" ? (globalThis as any).fetch : undefined);
+  if (!fetch) throw new Error("no 'fetch' available, pass one via the client options");
+  const response = await fetch(request.url, { method: request.method, headers: request.headers, body: request.body });
+  const responseHeaders: { [name: string]: string } = {};
+  response.headers.forEach((value: string, name: string) => responseHeaders[name] = value);
+  const text: string = await response.text();
+  const contentType = responseHeaders["content-type"] || "";
+  return {
+    status: response.status,
+    headers: responseHeaders,
+    body: contentType.match(/^application\\/([^;]+\\+)?json/i) && text !== "" ? JSON.parse(text) : text
+  };
+}
+`;
+
+function describeOperation(method: Method): any {
+  const parameters = method.parameters.map(parameter => {
+    const content: { [mediaType: string]: {} } = {};
+    for (const mediaType of Object.keys(parameter.content)) content[mediaType] = {};
+    return {
+      name: parameter.name,
+      location: parameter.location,
+      required: parameter.required,
+      format: parameter.format,
+      allowReserved: parameter.location === "query" && parameter.allowReserved,
+      content: content
+    };
+  });
+  const parameterBody = method.parameterBody;
+  const mediaType = parameterBody ? Object.keys(parameterBody.content)[0] : undefined;
+  return {
+    method: method.httpMethod,
+    path: formatPath(method.urlSuffix),
+    servers: method.servers.map(server => {
+      const variables: { [name: string]: string } = {};
+      for (const name of Object.keys(server.variables)) variables[name] = server.variables[name].default;
+      return { url: server.url, variables: variables };
+    }),
+    parameters: parameters,
+    requestBody: parameterBody && mediaType !== undefined ? {
+      mediaType: mediaType,
+      encoding: parameterBody.content[mediaType].encoding
+    } : undefined,
+    security: method.security.map(requirements => requirements.map(requirement => ({ scheme: requirement.scheme.name, scopes: requirement.scopes })))
+  };
+}
+
+/**
+ * Generates a TypeScript module with one function per operation (see `getOperationName`), created via `createClient`.
+ */
+export function generateClient(model: Model, options: ClientGeneratorOptions = {}): string {
+  const runtimeModule = options.runtimeModule || "openapi3-normalizer/serializer";
+  const operationNames = getOperationNames(model.operations);
+  const descriptors: string[] = [];
+  const functions: string[] = [];
+  for (const method of model.operations) {
+    const name = operationNames.get(method) as string;
+    descriptors.push(`  ${name}: ${JSON.stringify(describeOperation(method))}`);
+
+    // parameters may only be omitted if nothing after them is required
+    const bodyRequired = method.parameterBody !== undefined && method.parameterBody.required;
+    const parametersOptional = !bodyRequired && method.parameters.every(parameter => !parameter.required);
+    const args = [`parameters: Operations["${name}"]["parameters"]${parametersOptional ? " = {}" : ""}`];
+    if (method.parameterBody) {
+      args.push(`body${bodyRequired ? "" : "?"}: Operations["${name}"]["requestBody"]`);
+    }
+    functions.push(`${formatComment("    ", method.summary || method.description)}    ${name}: (${args.join(", ")}): Promise<ClientResponse<ResponseBody<"${name}">>> =>
+      send(options, operations.${name}, parameters, ${method.parameterBody ? "body" : "undefined"})`);
+  }
+
+  return [
+    "// generated from an OpenAPI document, do not edit",
+    `import { serializeEncoding, serializeParameter } from ${JSON.stringify(runtimeModule)};`,
+    "",
+    generateDeclarations(model, runtimeNames) + runtime,
+    `const operations: { [name: string]: OperationDescriptor } = {\n${descriptors.join(",\n")}\n};`,
+    "",
+    "/**",
+    " * Creates a client calling the operations of the API via HTTP.",
+    " */",
+    "export function createClient(options: ClientOptions = {}) {",
+    `  return {\n${functions.join(",\n")}\n  };`,
+    "}",
+    ""
+  ].join("\n");
+}
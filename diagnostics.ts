@@ -0,0 +1,140 @@
+import { safeLoad } from "js-yaml";
+import { SourcePath } from "./object-resolver";
+import { escapePointerPart } from "./json-pointer";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * Stable identifiers of the problems reported while modeling.
+ */
+export type DiagnosticCode =
+  "invalid-path-template" |
+  "path-parameter-not-required" |
+  "invalid-parameter-location" |
+  "unknown-collection-format" |
+  "unsupported-collection-format" |
+  "conflicting-body-parameters" |
+  "duplicate-parameter" |
+  "path-parameter-mismatch" |
+  "unknown-schema-type" |
+  "unknown-encoding-property" |
+  "unknown-security-scheme" |
+  "invalid-security-scheme" |
+  "unknown-scope" |
+  "invalid-status-code" |
+  "missing-responses" |
+  "missing-content" |
+  "invalid-runtime-expression" |
+  "invalid-link" |
+  "unresolved-link-target" |
+  "invalid-composition" |
+  "conflicting-property" |
+  "unresolved-discriminator-mapping" |
+  "ambiguous-path" |
+  "missing-server-url" |
+  "undeclared-server-variable" |
+  "invalid-server-variable";
+
+export interface SourceLocation {
+  documentUri?: string;
+  pointer?: string;
+  // 1-based, only known for nodes loaded via `loadYaml`
+  line?: number;
+  column?: number;
+}
+
+export interface Diagnostic extends SourceLocation {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+}
+
+export interface Diagnostics {
+  list: Diagnostic[];
+  // nodes derived from nodes of the document (e.g. by converting Swagger 2.0), mapped to those, where they are located instead
+  origins: WeakMap<object, object>;
+  report(severity: DiagnosticSeverity, code: DiagnosticCode, message: string, node?: any): void;
+}
+
+// source positions of loaded nodes
+const sourcePositions = new WeakMap<object, { line: number, column: number }>();
+
+/**
+ * Parses given YAML (or JSON) text, remembering the source position of each object and array.
+ */
+export function loadYaml(text: string): any {
+  const stack: { line: number, column: number }[] = [];
+  return safeLoad(text, {
+    listener: (eventType, state) => {
+      if (eventType === "open") {
+        stack.push({ line: state.line + 1, column: state.position - state.lineStart + 1 });
+      } else {
+        const position = stack.pop();
+        if (position && typeof state.result === "object" && state.result !== null && !sourcePositions.has(state.result)) {
+          sourcePositions.set(state.result, position);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Maps each node of given (resolved) document to its location.
+ * Nodes tagged with `$path` by the resolver are located where they are defined, not where they are referenced.
+ */
+function locateNodes(document: any, documentUri: string): WeakMap<object, SourcePath> {
+  const result = new WeakMap<object, SourcePath>();
+  const visit = (node: any, location: SourcePath) => {
+    if (typeof node !== "object" || node === null || result.has(node)) return;
+    location = node.$path || location;
+    result.set(node, location);
+    for (const key of Object.keys(node)) {
+      if (key !== "$path") {
+        visit(node[key], { documentUri: location.documentUri, pointer: `${location.pointer}/${escapePointerPart(key)}` });
+      }
+    }
+  };
+  visit(document, { documentUri: documentUri, pointer: "" });
+  return result;
+}
+
+/**
+ * Creates a function locating nodes of given document (as far as they are part of it).
+ * @param origins Nodes derived from nodes of the document, located where those are.
+ */
+export function createLocator(document: any, documentUri: string = "", origins?: WeakMap<object, object>): (node: any) => SourceLocation {
+  let locations: WeakMap<object, SourcePath> | undefined = undefined;
+  return node => {
+    const result: SourceLocation = {};
+    if (typeof node !== "object" || node === null) return result;
+    node = (origins && origins.get(node)) || node;
+    locations = locations || locateNodes(document, documentUri);
+    const location = locations.get(node);
+    if (location) {
+      result.documentUri = location.documentUri || undefined;
+      result.pointer = location.pointer;
+    }
+    const position = sourcePositions.get(node);
+    if (position) {
+      result.line = position.line;
+      result.column = position.column;
+    }
+    return result;
+  };
+}
+
+/**
+ * Creates a collector for diagnostics concerning nodes of given document.
+ */
+export function createDiagnostics(document: any, documentUri: string = ""): Diagnostics {
+  const origins = new WeakMap<object, object>();
+  const locate = createLocator(document, documentUri, origins);
+  const list: Diagnostic[] = [];
+  return {
+    list: list,
+    origins: origins,
+    report: (severity, code, message, node) => {
+      list.push(Object.assign({ severity: severity, code: code, message: message }, locate(node)));
+    }
+  };
+}
@@ -0,0 +1,359 @@
+import { Content, formatPath, formatStatusCode, getParameterKey, Method, Model, Parameter, ParameterBody, Path, Response, Schema } from "./modeler";
+import { formatPointer } from "./json-pointer";
+
+/**
+ * Stable identifiers of the changes found between two models.
+ */
+export type ChangeCode =
+  "operation-added" |
+  "operation-removed" |
+  "operation-deprecated" |
+  "security-added" |
+  "parameter-added" |
+  "parameter-removed" |
+  "parameter-required" |
+  "parameter-optional" |
+  "parameter-format-changed" |
+  "request-body-added" |
+  "request-body-removed" |
+  "request-body-required" |
+  "request-body-optional" |
+  "response-added" |
+  "response-removed" |
+  "header-added" |
+  "header-removed" |
+  "media-type-added" |
+  "media-type-removed" |
+  "type-changed" |
+  "format-changed" |
+  "nullable-added" |
+  "nullable-removed" |
+  "enum-values-added" |
+  "enum-values-removed" |
+  "constraint-tightened" |
+  "constraint-relaxed" |
+  "property-added" |
+  "property-removed" |
+  "property-required" |
+  "property-optional" |
+  "composition-changed";
+
+export interface Change {
+  code: ChangeCode;
+  // whether clients written against the old model may fail against the new one
+  breaking: boolean;
+  // e.g. "GET /pets/{id}", as in the new model unless the operation was removed
+  operation: string;
+  // location within the operation, e.g. "/parameters/query/limit/schema"
+  pointer: string;
+  message: string;
+}
+
+export interface DiffReport {
+  breaking: boolean;
+  changes: Change[];
+}
+
+// whether a schema describes values sent by clients or received by them, which decides what breaks them
+type Direction = "request" | "response";
+
+interface DiffContext {
+  changes: Change[];
+  operation: string;
+  // schema pairs being compared, to stop at cycles
+  comparing: Map<Schema, Schema[]>;
+}
+
+function report(context: DiffContext, breaking: boolean, code: ChangeCode, pointer: (string | number)[], message: string): void {
+  context.changes.push({ code: code, breaking: breaking, operation: context.operation, pointer: formatPointer(pointer), message: message });
+}
+
+/**
+ * Reports a change that makes a schema accept fewer values, which breaks clients sending them.
+ */
+function narrowed(context: DiffContext, direction: Direction, code: ChangeCode, pointer: (string | number)[], message: string): void {
+  report(context, direction === "request", code, pointer, message);
+}
+
+/**
+ * Reports a change that makes a schema accept more values, which breaks clients receiving them.
+ */
+function widened(context: DiffContext, direction: Direction, code: ChangeCode, pointer: (string | number)[], message: string): void {
+  report(context, direction === "response", code, pointer, message);
+}
+
+/**
+ * Normalizes given path template, so that templates only differing in parameter names are equal.
+ */
+function formatTemplate(path: Path): string {
+  return path.map(component => component.type === "const" ? component.value : "{}").join("");
+}
+
+function formatOperation(method: Method): string {
+  return `${method.httpMethod.toUpperCase()} ${formatPath(method.urlSuffix)}`;
+}
+
+function getOperationKey(method: Method): string {
+  return `${method.httpMethod} ${formatTemplate(method.urlSuffix)}`;
+}
+
+function formatValues(values: any[]): string {
+  return values.map(value => JSON.stringify(value)).join(", ");
+}
+
+/**
+ * Compares a lower (or upper) bound, where an exclusive bound is tighter than an inclusive one of the same value.
+ */
+function compareBound(context: DiffContext, direction: Direction, pointer: (string | number)[], name: string, upper: boolean,
+  before?: number, after?: number, beforeExclusive: boolean = false, afterExclusive: boolean = false): void {
+  if (before === after && beforeExclusive === afterExclusive) return;
+  const describe = (value?: number, exclusive?: boolean) => value === undefined ? "none" : `${value}${exclusive ? " (exclusive)" : ""}`;
+  const message = `'${name}' changed from ${describe(before, beforeExclusive)} to ${describe(after, afterExclusive)}`;
+  let tightened: boolean;
+  if (before === undefined || after === undefined) tightened = before === undefined;
+  else if (before !== after) tightened = upper ? after < before : after > before;
+  else tightened = afterExclusive;
+  if (tightened) narrowed(context, direction, "constraint-tightened", pointer, message);
+  else widened(context, direction, "constraint-relaxed", pointer, message);
+}
+
+function compareEnum(context: DiffContext, direction: Direction, pointer: (string | number)[], before?: any[], after?: any[]): void {
+  if (!before && !after) return;
+  if (!before) return narrowed(context, direction, "enum-values-removed", pointer, `values restricted to ${formatValues(after as any[])}`);
+  if (!after) return widened(context, direction, "enum-values-added", pointer, "values no longer restricted");
+  const keys = (values: any[]) => values.map(value => JSON.stringify(value));
+  const beforeKeys = keys(before);
+  const afterKeys = keys(after);
+  const removed = before.filter((_, index) => afterKeys.indexOf(beforeKeys[index]) === -1);
+  const added = after.filter((_, index) => beforeKeys.indexOf(afterKeys[index]) === -1);
+  if (removed.length !== 0) narrowed(context, direction, "enum-values-removed", pointer, `values ${formatValues(removed)} removed`);
+  if (added.length !== 0) widened(context, direction, "enum-values-added", pointer, `values ${formatValues(added)} added`);
+}
+
+function compareComposition(context: DiffContext, direction: Direction, pointer: (string | number)[], keyword: string, before?: Schema[], after?: Schema[]): void {
+  if (!before && !after) return;
+  if (!before || !after || before.length !== after.length) {
+    return report(context, true, "composition-changed", pointer.concat(keyword), `'${keyword}' changed from ${before ? before.length : "no"} to ${after ? after.length : "no"} schemas`);
+  }
+  before.forEach((member, index) => compareSchemas(context, direction, pointer.concat(keyword, index), member, after[index]));
+}
+
+function compareProperties(context: DiffContext, direction: Direction, pointer: (string | number)[], before: Schema & { type: "object" }, after: Schema & { type: "object" }): void {
+  const beforeProperties = before.effectiveProperties;
+  const afterProperties = after.effectiveProperties;
+  for (const name of Object.keys(beforeProperties)) {
+    const propertyPointer = pointer.concat("properties", name);
+    if (!(name in afterProperties)) {
+      // no longer described, or no longer allowed at all
+      if (after.closed) report(context, true, "property-removed", propertyPointer, `property '${name}' removed`);
+      else widened(context, direction, "property-removed", propertyPointer, `property '${name}' removed`);
+      continue;
+    }
+    compareSchemas(context, direction, propertyPointer, beforeProperties[name], afterProperties[name]);
+  }
+  for (const name of Object.keys(afterProperties)) {
+    if (name in beforeProperties) continue;
+    const propertyPointer = pointer.concat("properties", name);
+    if (after.effectiveRequired.indexOf(name) !== -1) narrowed(context, direction, "property-added", propertyPointer, `required property '${name}' added`);
+    else if (before.closed) widened(context, direction, "property-added", propertyPointer, `property '${name}' added`);
+    else report(context, false, "property-added", propertyPointer, `property '${name}' added`);
+  }
+  for (const name of after.effectiveRequired) {
+    if (name in beforeProperties && before.effectiveRequired.indexOf(name) === -1) {
+      narrowed(context, direction, "property-required", pointer.concat("properties", name), `property '${name}' became required`);
+    }
+  }
+  for (const name of before.effectiveRequired) {
+    if (after.effectiveRequired.indexOf(name) === -1 && name in afterProperties) {
+      widened(context, direction, "property-optional", pointer.concat("properties", name), `property '${name}' became optional`);
+    }
+  }
+
+  if (!before.closed && after.closed) narrowed(context, direction, "constraint-tightened", pointer.concat("additionalProperties"), "additional properties no longer allowed");
+  if (before.closed && !after.closed) widened(context, direction, "constraint-relaxed", pointer.concat("additionalProperties"), "additional properties allowed");
+  if (before.additionalProperties && after.additionalProperties) {
+    compareSchemas(context, direction, pointer.concat("additionalProperties"), before.additionalProperties, after.additionalProperties);
+  }
+  compareBound(context, direction, pointer, "minProperties", false, before.minProperties, after.minProperties);
+  compareBound(context, direction, pointer, "maxProperties", true, before.maxProperties, after.maxProperties);
+}
+
+/**
+ * Compares two schemas structurally.
+ */
+function compareSchemas(context: DiffContext, direction: Direction, pointer: (string | number)[], before: Schema, after: Schema): void {
+  const compared = context.comparing.get(before) || [];
+  if (compared.indexOf(after) !== -1) return;
+  context.comparing.set(before, compared.concat([after]));
+
+  if (before.typeDeclared && after.typeDeclared && before.type !== after.type) {
+    return report(context, true, "type-changed", pointer, `type changed from '${before.type}' to '${after.type}'`);
+  }
+  if (!before.typeDeclared && after.typeDeclared) narrowed(context, direction, "type-changed", pointer, `type restricted to '${after.type}'`);
+  if (before.typeDeclared && !after.typeDeclared) widened(context, direction, "type-changed", pointer, `type no longer restricted to '${before.type}'`);
+  if (before.nullable && !after.nullable) narrowed(context, direction, "nullable-removed", pointer, "null no longer allowed");
+  if (!before.nullable && after.nullable) widened(context, direction, "nullable-added", pointer, "null allowed");
+  compareEnum(context, direction, pointer, before.enum, after.enum);
+
+  if (before.type === "string" && after.type === "string") {
+    if (before.format !== after.format) report(context, true, "format-changed", pointer, `format changed from '${before.format || "none"}' to '${after.format || "none"}'`);
+    compareBound(context, direction, pointer, "minLength", false, before.minLength, after.minLength);
+    compareBound(context, direction, pointer, "maxLength", true, before.maxLength, after.maxLength);
+    if (before.pattern !== after.pattern) {
+      // whether patterns are narrower or wider is not decidable in general
+      if (before.pattern === undefined) narrowed(context, direction, "constraint-tightened", pointer, `pattern '${after.pattern}' added`);
+      else if (after.pattern === undefined) widened(context, direction, "constraint-relaxed", pointer, `pattern '${before.pattern}' removed`);
+      else report(context, true, "constraint-tightened", pointer, `pattern changed from '${before.pattern}' to '${after.pattern}'`);
+    }
+  }
+  if ((before.type === "integer" || before.type === "number") && (after.type === "integer" || after.type === "number")) {
+    if (before.format !== after.format) report(context, true, "format-changed", pointer, `format changed from '${before.format || "none"}' to '${after.format || "none"}'`);
+    compareBound(context, direction, pointer, "minimum", false, before.minimum, after.minimum, before.exclusiveMinimum, after.exclusiveMinimum);
+    compareBound(context, direction, pointer, "maximum", true, before.maximum, after.maximum, before.exclusiveMaximum, after.exclusiveMaximum);
+    if (before.multipleOf !== after.multipleOf) {
+      const message = `'multipleOf' changed from ${before.multipleOf === undefined ? "none" : before.multipleOf} to ${after.multipleOf === undefined ? "none" : after.multipleOf}`;
+      if (after.multipleOf === undefined || (before.multipleOf !== undefined && before.multipleOf % after.multipleOf === 0)) widened(context, direction, "constraint-relaxed", pointer, message);
+      else if (before.multipleOf === undefined || after.multipleOf % before.multipleOf === 0) narrowed(context, direction, "constraint-tightened", pointer, message);
+      else report(context, true, "constraint-tightened", pointer, message);
+    }
+  }
+  if (before.type === "array" && after.type === "array") {
+    compareBound(context, direction, pointer, "minItems", false, before.minItems, after.minItems);
+    compareBound(context, direction, pointer, "maxItems", true, before.maxItems, after.maxItems);
+    if (!before.uniqueItems && after.uniqueItems) narrowed(context, direction, "constraint-tightened", pointer, "items have to be unique");
+    if (before.uniqueItems && !after.uniqueItems) widened(context, direction, "constraint-relaxed", pointer, "items no longer have to be unique");
+    compareSchemas(context, direction, pointer.concat("items"), before.items, after.items);
+  }
+  if (before.type === "object" && after.type === "object") {
+    compareProperties(context, direction, pointer, before, after);
+  }
+
+  // `allOf` is covered by the effective properties already
+  compareComposition(context, direction, pointer, "oneOf", before.oneOf, after.oneOf);
+  compareComposition(context, direction, pointer, "anyOf", before.anyOf, after.anyOf);
+  if (before.not && after.not) compareSchemas(context, direction === "request" ? "response" : "request", pointer.concat("not"), before.not, after.not);
+  else if (before.not || after.not) report(context, true, "composition-changed", pointer.concat("not"), `'not' ${before.not ? "removed" : "added"}`);
+}
+
+function compareContent(context: DiffContext, direction: Direction, pointer: (string | number)[], before: Content, after: Content): void {
+  for (const mediaType of Object.keys(before)) {
+    // parameters and headers described by a schema only have content without media type
+    const mediaTypePointer = mediaType === "" ? pointer : pointer.concat("content", mediaType);
+    if (!(mediaType in after)) {
+      report(context, true, "media-type-removed", mediaTypePointer, `media type '${mediaType}' removed`);
+      continue;
+    }
+    const beforeSchema = before[mediaType].schema;
+    const afterSchema = after[mediaType].schema;
+    if (beforeSchema && afterSchema) compareSchemas(context, direction, mediaTypePointer.concat("schema"), beforeSchema, afterSchema);
+  }
+  for (const mediaType of Object.keys(after)) {
+    if (!(mediaType in before)) report(context, false, "media-type-added", pointer.concat("content", mediaType), `media type '${mediaType}' added`);
+  }
+}
+
+/**
+ * Parameter keys, with path parameters named after their counterparts in the old template (they are matched by position).
+ */
+function getParameterKeys(method: Method, names: string[]): string[] {
+  const pathNames = method.urlSuffix.map(component => component.type === "param" ? component.name : "").filter(name => name !== "");
+  return method.parameters.map(parameter => {
+    const index = pathNames.indexOf(parameter.name);
+    if (parameter.location !== "path" || index === -1 || names[index] === undefined) return getParameterKey(parameter);
+    return getParameterKey(Object.assign({}, parameter, { name: names[index] }));
+  });
+}
+
+function compareParameters(context: DiffContext, before: Method, after: Method): void {
+  const names = before.urlSuffix.map(component => component.type === "param" ? component.name : "").filter(name => name !== "");
+  const beforeKeys = getParameterKeys(before, names);
+  const afterKeys = getParameterKeys(after, names);
+  before.parameters.forEach((parameter, index) => {
+    const pointer = ["parameters", parameter.location, parameter.name];
+    const afterIndex = afterKeys.indexOf(beforeKeys[index]);
+    if (afterIndex === -1) return report(context, true, "parameter-removed", pointer, `${parameter.location} parameter '${parameter.name}' removed`);
+    const afterParameter: Parameter = after.parameters[afterIndex];
+    if (!parameter.required && afterParameter.required) report(context, true, "parameter-required", pointer, `${parameter.location} parameter '${parameter.name}' became required`);
+    if (parameter.required && !afterParameter.required) report(context, false, "parameter-optional", pointer, `${parameter.location} parameter '${parameter.name}' became optional`);
+    if (parameter.format.style !== afterParameter.format.style || parameter.format.explode !== afterParameter.format.explode) {
+      report(context, true, "parameter-format-changed", pointer, `serialization of ${parameter.location} parameter '${parameter.name}' changed`);
+    }
+    compareContent(context, "request", pointer, parameter.content, afterParameter.content);
+  });
+  after.parameters.forEach((parameter, index) => {
+    if (beforeKeys.indexOf(afterKeys[index]) !== -1) return;
+    report(context, parameter.required, "parameter-added", ["parameters", parameter.location, parameter.name],
+      `${parameter.required ? "required" : "optional"} ${parameter.location} parameter '${parameter.name}' added`);
+  });
+}
+
+function compareRequestBodies(context: DiffContext, before?: ParameterBody, after?: ParameterBody): void {
+  const pointer = ["requestBody"];
+  if (!before && !after) return;
+  if (!before) return report(context, (after as ParameterBody).required, "request-body-added", pointer, "request body added");
+  if (!after) return report(context, true, "request-body-removed", pointer, "request body removed");
+  if (!before.required && after.required) report(context, true, "request-body-required", pointer, "request body became required");
+  if (before.required && !after.required) report(context, false, "request-body-optional", pointer, "request body became optional");
+  compareContent(context, "request", pointer, before.content, after.content);
+}
+
+function compareResponse(context: DiffContext, pointer: (string | number)[], before: Response, after: Response): void {
+  for (const header of before.headers) {
+    const afterHeader = after.headers.filter(x => x.name.toLowerCase() === header.name.toLowerCase())[0];
+    const headerPointer = pointer.concat("headers", header.name);
+    if (!afterHeader) report(context, true, "header-removed", headerPointer, `header '${header.name}' removed`);
+    else compareContent(context, "response", headerPointer, header.content, afterHeader.content);
+  }
+  for (const header of after.headers) {
+    if (!before.headers.some(x => x.name.toLowerCase() === header.name.toLowerCase())) {
+      report(context, false, "header-added", pointer.concat("headers", header.name), `header '${header.name}' added`);
+    }
+  }
+  compareContent(context, "response", pointer, before.content, after.content);
+}
+
+function compareResponses(context: DiffContext, before: Method, after: Method): void {
+  for (const methodResponse of before.responses) {
+    const statusCode = formatStatusCode(methodResponse.key);
+    const pointer = ["responses", statusCode];
+    const afterResponse = after.responses.filter(x => x.key === methodResponse.key)[0];
+    if (!afterResponse) report(context, true, "response-removed", pointer, `response '${statusCode}' removed`);
+    else compareResponse(context, pointer, methodResponse.response, afterResponse.response);
+  }
+  for (const methodResponse of after.responses) {
+    if (!before.responses.some(x => x.key === methodResponse.key)) {
+      const statusCode = formatStatusCode(methodResponse.key);
+      report(context, false, "response-added", ["responses", statusCode], `response '${statusCode}' added`);
+    }
+  }
+}
+
+function compareOperations(context: DiffContext, before: Method, after: Method): void {
+  if (!before.deprecated && after.deprecated) report(context, false, "operation-deprecated", [], "operation deprecated");
+  // an empty alternative means no credentials are needed
+  const anonymous = (method: Method) => method.security.length === 0 || method.security.some(requirements => requirements.length === 0);
+  if (anonymous(before) && !anonymous(after)) report(context, true, "security-added", ["security"], "credentials became required");
+  compareParameters(context, before, after);
+  compareRequestBodies(context, before.parameterBody, after.parameterBody);
+  compareResponses(context, before, after);
+}
+
+/**
+ * Compares two versions of an API, matching operations by HTTP method and path template, parameters by name and location,
+ * and comparing schemas structurally. Changes are breaking if clients written against the old version may fail against the new one.
+ */
+export function diffModels(before: Model, after: Model): DiffReport {
+  const changes: Change[] = [];
+  const createContext = (method: Method): DiffContext => ({ changes: changes, operation: formatOperation(method), comparing: new Map<Schema, Schema[]>() });
+  const afterKeys = after.operations.map(getOperationKey);
+  const beforeKeys = before.operations.map(getOperationKey);
+  before.operations.forEach((method, index) => {
+    const afterIndex = afterKeys.indexOf(beforeKeys[index]);
+    if (afterIndex === -1) report(createContext(method), true, "operation-removed", [], "operation removed");
+    else compareOperations(createContext(after.operations[afterIndex]), method, after.operations[afterIndex]);
+  });
+  after.operations.forEach((method, index) => {
+    if (beforeKeys.indexOf(afterKeys[index]) === -1) report(createContext(method), false, "operation-added", [], "operation added");
+  });
+  return { breaking: changes.some(change => change.breaking), changes: changes };
+}
@@ -0,0 +1,242 @@
+import { Method, Model, Parameter, Schema } from "./modeler";
+
+interface GeneratorContext {
+  // names of declared schemas
+  names: Map<Schema, string>;
+  usedNames: string[];
+  // declared schemas not emitted yet
+  pending: Schema[];
+  // schemas being rendered inline, to hoist recursive ones into declarations
+  rendering: Schema[];
+}
+
+const reservedWords = ["any", "boolean", "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else",
+  "enum", "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof", "never", "new", "null", "number",
+  "object", "return", "string", "super", "switch", "symbol", "this", "throw", "true", "try", "typeof", "undefined", "var", "void", "while", "with"];
+
+function isIdentifier(name: string): boolean {
+  return name.match(/^[A-Za-z_$][A-Za-z0-9_$]*$/) !== null;
+}
+
+/**
+ * Turns given name into a PascalCase identifier, e.g. "pet-store.Item" into "PetStoreItem".
+ */
+export function toTypeName(name: string): string {
+  const result = name.split(/[^A-Za-z0-9]+/).filter(part => part !== "").map(part => part[0].toUpperCase() + part.slice(1)).join("");
+  if (result === "") return "Anonymous";
+  return result.match(/^[0-9]/) || reservedWords.indexOf(result) !== -1 ? "_" + result : result;
+}
+
+/**
+ * Turns given name into a camelCase identifier, e.g. "get-pet by_id" into "getPetById".
+ */
+export function toMemberName(name: string): string {
+  const typeName = toTypeName(name);
+  const result = typeName.startsWith("_") ? typeName : typeName[0].toLowerCase() + typeName.slice(1);
+  return reservedWords.indexOf(result) !== -1 ? "_" + result : result;
+}
+
+/**
+ * Name of given operation: its `operationId`, or one derived from its HTTP method and path, e.g. "getPetsById" for "GET /pets/{id}".
+ */
+export function getOperationName(method: Method): string {
+  if (method.operationId !== undefined) return toMemberName(method.operationId);
+  const parts = method.urlSuffix.map(component => component.type === "const" ? component.value : ` by ${component.name} `);
+  return toMemberName(method.httpMethod + " " + parts.join(" "));
+}
+
+/**
+ * Names the given operations (see `getOperationName`), appending numbers to duplicates.
+ */
+export function getOperationNames(methods: Method[]): Map<Method, string> {
+  const result = new Map<Method, string>();
+  const usedNames: string[] = [];
+  for (const method of methods) {
+    const name = getOperationName(method);
+    let unique = name;
+    for (let i = 2; usedNames.indexOf(unique) !== -1; ++i) unique = name + i;
+    usedNames.push(unique);
+    result.set(method, unique);
+  }
+  return result;
+}
+
+function formatPropertyName(name: string): string {
+  return isIdentifier(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Formats given text as a doc comment, with each line prefixed by given indentation.
+ */
+export function formatComment(indent: string, text?: string): string {
+  if (!text) return "";
+  const lines = text.trim().replace(/\*\//g, "*\\/").split(/\r?\n/);
+  return lines.length === 1
+    ? `${indent}/** ${lines[0]} */\n`
+    : `${indent}/**\n${lines.map(line => `${indent} * ${line}`.replace(/\s+$/, "")).join("\n")}\n${indent} */\n`;
+}
+
+function declare(context: GeneratorContext, schema: Schema, name: string): string {
+  let unique = toTypeName(name);
+  for (let i = 2; context.usedNames.indexOf(unique) !== -1; ++i) unique = toTypeName(name) + i;
+  context.usedNames.push(unique);
+  context.names.set(schema, unique);
+  context.pending.push(schema);
+  return unique;
+}
+
+/**
+ * Wraps given type in parentheses if it is a union or intersection (outside of nested object types).
+ */
+function parenthesize(type: string): string {
+  let depth = 0;
+  for (const c of type.split("")) {
+    if (c === "{" || c === "(") ++depth;
+    else if (c === "}" || c === ")") --depth;
+    else if (depth === 0 && (c === "|" || c === "&")) return `(${type})`;
+  }
+  return type;
+}
+
+function renderProperties(context: GeneratorContext, schema: Schema & { type: "object" }, properties: { [name: string]: Schema }, required: string[], indent: string): string[] {
+  const lines: string[] = [];
+  const propertyTypes: string[] = [];
+  for (const name of Object.keys(properties)) {
+    const property = properties[name];
+    const optional = required.indexOf(name) === -1;
+    const type = renderType(context, property, indent);
+    propertyTypes.push(type + (optional ? " | undefined" : ""));
+    lines.push(`${formatComment(indent, property.description)}${indent}${property.readOnly ? "readonly " : ""}${formatPropertyName(name)}${optional ? "?" : ""}: ${type};`);
+  }
+  if (schema.additionalProperties) {
+    // declared properties have to be assignable to the index signature
+    const types = [renderType(context, schema.additionalProperties, indent)].concat(propertyTypes);
+    lines.push(`${indent}[key: string]: ${types.filter((type, index) => types.indexOf(type) === index).join(" | ")};`);
+  }
+  return lines;
+}
+
+function renderObject(context: GeneratorContext, schema: Schema & { type: "object" }, indent: string): string {
+  const lines = renderProperties(context, schema, schema.properties, schema.required, indent + "  ");
+  return lines.length === 0 ? "{}" : `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Renders the type of given schema, ignoring its name (see `renderType`).
+ */
+function renderSchema(context: GeneratorContext, schema: Schema, indent: string): string {
+  let type: string;
+  if (schema.enum && schema.enum.length !== 0) {
+    type = schema.enum.map(value => JSON.stringify(value)).join(" | ");
+  } else {
+    switch (schema.type) {
+      case "string": type = "string"; break;
+      case "integer":
+      case "number": type = "number"; break;
+      case "boolean": type = "boolean"; break;
+      case "null": type = "null"; break;
+      case "array": type = parenthesize(renderType(context, schema.items, indent)) + "[]"; break;
+      default:
+        const hasMembers = Object.keys(schema.properties).length !== 0 || schema.additionalProperties !== undefined;
+        const composed = schema.allOf || schema.oneOf || schema.anyOf;
+        type = hasMembers ? renderObject(context, schema, indent) : (schema.typeDeclared || composed ? "{}" : "any");
+        break;
+    }
+  }
+
+  // composition
+  const parts: string[] = type === "{}" && (schema.allOf || schema.oneOf || schema.anyOf) ? [] : [type];
+  if (schema.allOf) parts.push(...schema.allOf.map(member => parenthesize(renderType(context, member, indent))));
+  const alternatives = (schema.oneOf || []).concat(schema.anyOf || []);
+  if (alternatives.length !== 0) {
+    const union = alternatives.map(alternative => renderType(context, alternative, indent)).join(" | ");
+    parts.push(parts.length === 0 ? union : parenthesize(union));
+  }
+  type = parts.length === 0 ? "{}" : parts.join(" & ");
+
+  return schema.nullable && type !== "any" ? `${type} | null` : type;
+}
+
+/**
+ * Renders a reference to given schema if it is declared, or its type inline otherwise.
+ */
+function renderType(context: GeneratorContext, schema: Schema, indent: string): string {
+  const name = context.names.get(schema);
+  if (name !== undefined) return name;
+  if (context.rendering.indexOf(schema) !== -1) return declare(context, schema, schema.name || "Anonymous");
+  context.rendering.push(schema);
+  try {
+    return renderSchema(context, schema, indent);
+  } finally {
+    context.rendering.pop();
+  }
+}
+
+function renderDeclaration(context: GeneratorContext, schema: Schema, name: string): string {
+  const comment = formatComment("", schema.description || schema.title);
+  const plainObject = schema.type === "object" && !schema.allOf && !schema.oneOf && !schema.anyOf && !schema.nullable && !schema.enum
+    && (Object.keys(schema.properties).length !== 0 || schema.additionalProperties !== undefined);
+  if (plainObject) return `${comment}export interface ${name} ${renderSchema(context, schema, "")}\n`;
+  return `${comment}export type ${name} = ${renderSchema(context, schema, "")};\n`;
+}
+
+function renderParameters(context: GeneratorContext, parameters: Parameter[], indent: string): string {
+  const lines: string[] = [];
+  for (const location of ["path", "query", "header", "cookie"]) {
+    const located = parameters.filter(parameter => parameter.location === location);
+    if (located.length === 0) continue;
+    const members = located.map(parameter => {
+      const mediaType = Object.keys(parameter.content).filter(mediaType => mediaType !== "")[0];
+      const schema = parameter.content[mediaType !== undefined ? mediaType : ""].schema;
+      const type = schema ? renderType(context, schema, indent + "  ") : "string";
+      return `${formatComment(indent + "  ", parameter.description)}${indent}  ${formatPropertyName(parameter.name)}${parameter.required ? "" : "?"}: ${type};`;
+    });
+    const optional = located.every(parameter => !parameter.required);
+    lines.push(`${indent}${location}${optional ? "?" : ""}: {\n${members.join("\n")}\n${indent}};`);
+  }
+  return lines.length === 0 ? "{}" : `{\n${lines.join("\n")}\n${indent.slice(2)}}`;
+}
+
+function renderContentType(context: GeneratorContext, content: { [mediaType: string]: { schema?: Schema } }, indent: string): string {
+  const types = Object.keys(content).map(mediaType => {
+    const schema = content[mediaType].schema;
+    return schema ? renderType(context, schema, indent) : "any";
+  });
+  const distinct = types.filter((type, index) => types.indexOf(type) === index);
+  return distinct.length === 0 ? "void" : distinct.join(" | ");
+}
+
+function renderOperation(context: GeneratorContext, method: Method, name: string): string {
+  const indent = "    ";
+  const lines: string[] = [];
+  lines.push(`${indent}parameters: ${renderParameters(context, method.parameters, indent + "  ")};`);
+  if (method.parameterBody) {
+    lines.push(`${indent}requestBody${method.parameterBody.required ? "" : "?"}: ${renderContentType(context, method.parameterBody.content, indent)};`);
+  }
+  const responses = method.responses.map(methodResponse =>
+    `${formatComment(indent + "  ", methodResponse.response.description)}${indent}  ${methodResponse.key === "XXX" ? "default" : JSON.stringify(methodResponse.key)}: ${renderContentType(context, methodResponse.response.content, indent + "  ")};`);
+  lines.push(`${indent}responses: ${responses.length === 0 ? "{}" : `{\n${responses.join("\n")}\n${indent}}`};`);
+  return `${formatComment("  ", method.summary || method.description)}  ${name}: {\n${lines.join("\n")}\n  };`;
+}
+
+/**
+ * Generates TypeScript declarations for the named schemas of given model, as well as an `Operations` interface
+ * describing the parameters, request body and responses of each operation, keyed by operation name (see `getOperationName`).
+ * @param reservedNames Names the declarations of schemas avoid (besides `Operations`), e.g. those of code they are embedded into.
+ */
+export function generateDeclarations(model: Model, reservedNames: string[] = []): string {
+  const context: GeneratorContext = { names: new Map<Schema, string>(), usedNames: ["Operations"].concat(reservedNames), pending: [], rendering: [] };
+  const schemas = model.components.schemas;
+  for (const name of Object.keys(schemas)) {
+    if (!context.names.has(schemas[name])) declare(context, schemas[name], name);
+  }
+
+  const operationNames = getOperationNames(model.operations);
+  const operations = model.operations.map(method => renderOperation(context, method, operationNames.get(method) as string));
+  const declarations: string[] = [];
+  for (let i = 0; i < context.pending.length; ++i) {
+    const schema = context.pending[i];
+    declarations.push(renderDeclaration(context, schema, context.names.get(schema) as string));
+  }
+  return declarations.concat(`export interface Operations {${operations.map(operation => "\n" + operation).join("")}\n}\n`).join("\n");
+}
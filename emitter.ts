@@ -0,0 +1,517 @@
+import { Content, Encoding, formatPath, formatStatusCode, httpMethods, Method, Model, Parameter, ParameterBody, Response, Schema, Server } from "./modeler";
+import { ExampleObject, OpenAPIObject } from "./types/OpenApi";
+import { escapePointerPart } from "./json-pointer";
+
+type Header = Response["headers"][0];
+type Link = Response["links"][""];
+type LinkValue = Link["parameters"][""];
+type Callback = Method["callbacks"][""];
+type SecurityScheme = Model["components"]["securitySchemes"][""];
+
+interface EmitContext {
+  // references to objects defined in the components
+  refs: Map<object, string>;
+  // number of references to each schema, those with more than one are hoisted into the components
+  references: Map<Schema, number>;
+  usedSchemaNames: string[];
+  // hoisted schemas not emitted yet
+  pending: { schema: Schema, name: string }[];
+}
+
+function formatRef(section: string, name: string): string {
+  return `#/components/${section}/${encodeURIComponent(escapePointerPart(name))}`;
+}
+
+/**
+ * Emits the entries of given map ordered by key, dropping undefined values.
+ */
+function emitMap<T>(map: { [key: string]: T }, emit: (value: T, key: string) => any): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  for (const key of Object.keys(map).sort()) {
+    const value = emit(map[key], key);
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Drops undefined values and empty maps or lists, which are implied.
+ */
+function compact(obj: { [key: string]: any }): any {
+  const result: { [key: string]: any } = {};
+  for (const key of Object.keys(obj)) {
+    const value = obj[key];
+    if (value === undefined) continue;
+    if (typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length === 0) continue;
+    result[key] = value;
+  }
+  return result;
+}
+
+// schemas
+
+function countReferences(references: Map<Schema, number>, schema: Schema): void {
+  const count = references.get(schema) || 0;
+  references.set(schema, count + 1);
+  if (count !== 0) return;
+  const children = (schema.allOf || []).concat(schema.oneOf || [], schema.anyOf || [], schema.not ? [schema.not] : []);
+  if (schema.type === "array") children.push(schema.items);
+  if (schema.type === "object") {
+    children.push(...Object.keys(schema.properties).map(name => schema.properties[name]));
+    if (schema.additionalProperties) children.push(schema.additionalProperties);
+    if (schema.discriminator) {
+      // mapping targets are referred to by name, so they are always hoisted
+      const mapping = schema.discriminator.mapping;
+      for (const value of Object.keys(mapping)) {
+        countReferences(references, mapping[value]);
+        countReferences(references, mapping[value]);
+      }
+    }
+  }
+  for (const child of children) countReferences(references, child);
+}
+
+function getSchemaRef(context: EmitContext, schema: Schema): string {
+  let ref = context.refs.get(schema);
+  if (ref === undefined) {
+    const name = schema.name || "Schema";
+    let unique = name;
+    for (let i = 2; context.usedSchemaNames.indexOf(unique) !== -1; ++i) unique = name + i;
+    context.usedSchemaNames.push(unique);
+    ref = formatRef("schemas", unique);
+    context.refs.set(schema, ref);
+    context.pending.push({ schema: schema, name: unique });
+  }
+  return ref;
+}
+
+function emitSchemaReference(context: EmitContext, schema: Schema): any {
+  if (context.refs.has(schema) || (context.references.get(schema) || 0) > 1) return { $ref: getSchemaRef(context, schema) };
+  return emitSchema(context, schema);
+}
+
+function emitSchema(context: EmitContext, schema: Schema): any {
+  const result: any = {
+    title: schema.title,
+    description: schema.description,
+    // OpenAPI 3.0 has no null type, but a nullable schema only accepting null is equivalent
+    type: !schema.typeDeclared || schema.type === "null" ? undefined : schema.type,
+    format: schema.type === "string" || schema.type === "integer" || schema.type === "number" ? schema.format : undefined,
+    nullable: schema.nullable || schema.type === "null",
+    enum: schema.type === "null" ? [null] : schema.enum,
+    default: schema.default
+  };
+  switch (schema.type) {
+    case "string":
+      Object.assign(result, { minLength: schema.minLength, maxLength: schema.maxLength, pattern: schema.pattern });
+      break;
+    case "integer":
+    case "number":
+      Object.assign(result, {
+        multipleOf: schema.multipleOf,
+        minimum: schema.minimum,
+        exclusiveMinimum: schema.minimum !== undefined ? schema.exclusiveMinimum : undefined,
+        maximum: schema.maximum,
+        exclusiveMaximum: schema.maximum !== undefined ? schema.exclusiveMaximum : undefined
+      });
+      break;
+    case "array":
+      Object.assign(result, {
+        items: emitSchemaReference(context, schema.items),
+        minItems: schema.minItems,
+        maxItems: schema.maxItems,
+        uniqueItems: schema.uniqueItems
+      });
+      break;
+    case "object":
+      const mapping = schema.discriminator ? schema.discriminator.mapping : {};
+      Object.assign(result, {
+        properties: emitMap(schema.properties, property => emitSchemaReference(context, property)),
+        required: schema.required.length === 0 ? undefined : schema.required,
+        additionalProperties: schema.closed ? false : (schema.additionalProperties && emitSchemaReference(context, schema.additionalProperties)),
+        minProperties: schema.minProperties,
+        maxProperties: schema.maxProperties,
+        discriminator: schema.discriminator && compact({
+          propertyName: schema.discriminator.propertyName,
+          mapping: emitMap(mapping, target => getSchemaRef(context, target))
+        })
+      });
+      break;
+  }
+  Object.assign(result, {
+    allOf: schema.allOf && schema.allOf.map(member => emitSchemaReference(context, member)),
+    oneOf: schema.oneOf && schema.oneOf.map(alternative => emitSchemaReference(context, alternative)),
+    anyOf: schema.anyOf && schema.anyOf.map(alternative => emitSchemaReference(context, alternative)),
+    not: schema.not && emitSchemaReference(context, schema.not),
+    readOnly: schema.readOnly || undefined,
+    writeOnly: schema.writeOnly || undefined,
+    deprecated: schema.deprecated || undefined,
+    example: schema.example,
+    xml: schema.xml,
+    externalDocs: schema.externalDocs
+  });
+  return compact(result);
+}
+
+// parameters and content
+
+function emitExample(context: EmitContext, example: ExampleObject, reference: boolean = true): any {
+  const ref = context.refs.get(example);
+  if (reference && ref !== undefined) return { $ref: ref };
+  // the model keeps the source object, so only what OpenAPI defines is picked (leaving out e.g. the resolver's `$path`)
+  const result = compact({ summary: example.summary, description: example.description, externalValue: example.externalValue });
+  if (example.value !== undefined) result.value = example.value;
+  return result;
+}
+
+/**
+ * Emits the examples of a media type or parameter, where the one without name is the inline `example`.
+ */
+function emitExamples(context: EmitContext, examples: Content[""]["examples"]): { example?: any, examples?: any } {
+  const named = Object.keys(examples).filter(name => name !== "");
+  return {
+    example: "" in examples ? examples[""].value : undefined,
+    examples: named.length === 0 ? undefined : emitMap(examples, (example, name) => name === "" ? undefined : emitExample(context, example))
+  };
+}
+
+function emitEncoding(context: EmitContext, encoding: Encoding): any {
+  return compact({
+    contentType: encoding.contentType,
+    headers: emitHeaders(context, encoding.headers),
+    style: encoding.format.style,
+    explode: encoding.format.explode,
+    allowReserved: encoding.allowReserved || undefined
+  });
+}
+
+function emitContent(context: EmitContext, content: Content): any {
+  return emitMap(content, mediaTypeContent => compact(Object.assign({
+    schema: mediaTypeContent.schema && emitSchemaReference(context, mediaTypeContent.schema)
+  }, emitExamples(context, mediaTypeContent.examples), {
+    encoding: emitMap(mediaTypeContent.encoding, encoding => emitEncoding(context, encoding))
+  })));
+}
+
+/**
+ * Emits the schema of a parameter or header, or its content if it declares media types.
+ */
+function emitParameterContent(context: EmitContext, content: Content): any {
+  const mediaTypes = Object.keys(content).filter(mediaType => mediaType !== "");
+  if (mediaTypes.length !== 0) {
+    return { content: emitContent(context, emitMap(content, (value, mediaType) => mediaType === "" ? undefined : value)) };
+  }
+  const parameterContent = content[""];
+  return Object.assign({ schema: parameterContent.schema && emitSchemaReference(context, parameterContent.schema) }, emitExamples(context, parameterContent.examples));
+}
+
+function emitHeader(context: EmitContext, header: Header, reference: boolean = true): any {
+  const ref = context.refs.get(header);
+  if (reference && ref !== undefined) return { $ref: ref };
+  return compact(Object.assign({
+    description: header.description,
+    required: header.required,
+    deprecated: header.deprecated || undefined,
+    style: header.format.style,
+    explode: header.format.explode
+  }, emitParameterContent(context, header.content)));
+}
+
+function emitHeaders(context: EmitContext, headers: Header[]): any {
+  const result: { [name: string]: any } = {};
+  for (const header of headers.slice().sort((a, b) => a.name < b.name ? -1 : (a.name > b.name ? 1 : 0))) {
+    result[header.name] = emitHeader(context, header);
+  }
+  return result;
+}
+
+function emitParameter(context: EmitContext, parameter: Parameter, reference: boolean = true): any {
+  const ref = context.refs.get(parameter);
+  if (reference && ref !== undefined) return { $ref: ref };
+  return compact(Object.assign({
+    name: parameter.name,
+    in: parameter.location,
+    description: parameter.description,
+    required: parameter.required,
+    deprecated: parameter.deprecated || undefined,
+    allowEmptyValue: (parameter.location === "query" && parameter.allowEmptyValue) || undefined,
+    style: parameter.format.style,
+    explode: parameter.format.explode,
+    allowReserved: (parameter.location === "query" && parameter.allowReserved) || undefined
+  }, emitParameterContent(context, parameter.content)));
+}
+
+function emitRequestBody(context: EmitContext, requestBody: ParameterBody, reference: boolean = true): any {
+  const ref = context.refs.get(requestBody);
+  if (reference && ref !== undefined) return { $ref: ref };
+  return compact({
+    description: requestBody.description,
+    content: emitContent(context, requestBody.content),
+    required: requestBody.required
+  });
+}
+
+// responses, links and callbacks
+
+function emitRuntimeExpression(expression: Extract<LinkValue, { type: "expression" }>["expression"]): string {
+  switch (expression.type) {
+    case "url":
+    case "method":
+    case "statusCode":
+      return "$" + expression.type;
+  }
+  if (expression.source === "body") return `$${expression.type}.body${expression.pointer === "" ? "" : "#" + expression.pointer}`;
+  return `$${expression.type}.${expression.source}.${expression.name}`;
+}
+
+function emitLinkValue(value: LinkValue): any {
+  return value.type === "const" ? value.value : emitRuntimeExpression(value.expression);
+}
+
+function emitLink(context: EmitContext, link: Link, reference: boolean = true): any {
+  const ref = context.refs.get(link);
+  if (reference && ref !== undefined) return { $ref: ref };
+  return compact({
+    operationRef: link.operationRef,
+    operationId: link.operationId,
+    parameters: emitMap(link.parameters, emitLinkValue),
+    requestBody: link.requestBody && emitLinkValue(link.requestBody),
+    description: link.description,
+    server: link.server && emitServer(link.server)
+  });
+}
+
+function emitResponse(context: EmitContext, response: Response, reference: boolean = true): any {
+  const ref = context.refs.get(response);
+  if (reference && ref !== undefined) return { $ref: ref };
+  return compact({
+    // required by OpenAPI 3.0
+    description: response.description || "",
+    headers: emitHeaders(context, response.headers),
+    content: emitContent(context, response.content),
+    links: emitMap(response.links, link => emitLink(context, link))
+  });
+}
+
+function emitCallback(context: EmitContext, callback: Callback, reference: boolean = true): any {
+  const ref = context.refs.get(callback);
+  if (reference && ref !== undefined) return { $ref: ref };
+  const result: { [expression: string]: any } = {};
+  for (const request of callback.slice().sort((a, b) => a.expression < b.expression ? -1 : (a.expression > b.expression ? 1 : 0))) {
+    result[request.expression] = emitPathItem(context, request.operations, { servers: false, security: false });
+  }
+  return result;
+}
+
+// operations
+
+function emitServer(server: Server): any {
+  return compact({
+    url: server.url,
+    description: server.description,
+    variables: emitMap(server.variables, variable => compact({ enum: variable.enum, default: variable.default, description: variable.description }))
+  });
+}
+
+function emitSecurity(security: Method["security"]): any {
+  return security.map(requirements => {
+    const requirement: { [scheme: string]: string[] } = {};
+    for (const entry of requirements) requirement[entry.scheme.name] = entry.scopes;
+    return requirement;
+  });
+}
+
+/**
+ * @param servers Whether to emit the servers of the operation (otherwise they are those of the document).
+ * @param security Whether to emit the security of the operation (otherwise it is that of the document).
+ */
+function emitOperation(context: EmitContext, method: Method, servers: boolean, security: boolean): any {
+  const responses: { [key: string]: any } = {};
+  // by status code, which puts ranges after codes and the default response ("XXX") last
+  for (const methodResponse of method.responses.slice().sort((a, b) => a.key < b.key ? -1 : (a.key > b.key ? 1 : 0))) {
+    responses[formatStatusCode(methodResponse.key)] = emitResponse(context, methodResponse.response);
+  }
+  return Object.assign(compact({
+    tags: method.tags.length === 0 ? undefined : method.tags,
+    summary: method.summary,
+    description: method.description,
+    externalDocs: method.externalDocs,
+    operationId: method.operationId,
+    parameters: method.parameters.length === 0 ? undefined : method.parameters.map(parameter => emitParameter(context, parameter)),
+    requestBody: method.parameterBody && emitRequestBody(context, method.parameterBody),
+    responses: responses,
+    callbacks: emitMap(method.callbacks, callback => emitCallback(context, callback)),
+    deprecated: method.deprecated || undefined,
+    // no requirements is the default, unless the document declares some
+    security: security && method.security.length !== 0 ? emitSecurity(method.security) : undefined,
+    servers: servers && method.servers.length !== 0 ? method.servers.map(emitServer) : undefined
+  }), {
+    // required, even if there are none
+    responses: responses
+  });
+}
+
+/**
+ * @param shared Whether the servers and security of the operations are those of the document (rather than their own).
+ */
+function emitPathItem(context: EmitContext, methods: Method[], shared: { servers: boolean, security: boolean }): any {
+  const result: { [httpMethod: string]: any } = {};
+  for (const method of methods.slice().sort((a, b) => httpMethods.indexOf(a.httpMethod) - httpMethods.indexOf(b.httpMethod))) {
+    result[method.httpMethod] = emitOperation(context, method, !shared.servers, !shared.security);
+  }
+  return result;
+}
+
+function emitSecurityScheme(scheme: SecurityScheme): any {
+  switch (scheme.type) {
+    case "apiKey": return compact({ type: scheme.type, description: scheme.description, name: scheme.parameterName, in: scheme.in });
+    case "http": return compact({ type: scheme.type, description: scheme.description, scheme: scheme.scheme, bearerFormat: scheme.bearerFormat });
+    case "openIdConnect": return compact({ type: scheme.type, description: scheme.description, openIdConnectUrl: scheme.openIdConnectUrl });
+    case "oauth2":
+      const flows: { [type: string]: any } = {};
+      for (const flow of scheme.flows) {
+        flows[flow.type] = compact({ authorizationUrl: flow.authorizationUrl, tokenUrl: flow.tokenUrl, refreshUrl: flow.refreshUrl, scopes: flow.scopes });
+        // scopes are required, even if there are none
+        flows[flow.type].scopes = flow.scopes;
+      }
+      return compact({ type: scheme.type, description: scheme.description, flows: flows });
+  }
+}
+
+/**
+ * Collects the content of everything in given model, each once (no matter how often it is referenced).
+ */
+function getAllContent(model: Model): Content[] {
+  const result: Content[] = [];
+  const add = (content: Content) => {
+    if (result.indexOf(content) === -1) result.push(content);
+  };
+  const addHeaders = (headers: Header[]) => headers.forEach(header => add(header.content));
+  const addResponse = (response: Response) => {
+    addHeaders(response.headers);
+    add(response.content);
+  };
+  const addMethod = (method: Method) => {
+    method.parameters.forEach(parameter => add(parameter.content));
+    if (method.parameterBody) add(method.parameterBody.content);
+    method.responses.forEach(methodResponse => addResponse(methodResponse.response));
+    for (const name of Object.keys(method.callbacks)) {
+      method.callbacks[name].forEach(request => request.operations.forEach(addMethod));
+    }
+  };
+  const components = model.components;
+  model.operations.forEach(addMethod);
+  Object.keys(model.webhooks).forEach(name => model.webhooks[name].forEach(addMethod));
+  Object.keys(components.parameters).forEach(name => add(components.parameters[name].content));
+  Object.keys(components.requestBodies).forEach(name => add(components.requestBodies[name].content));
+  Object.keys(components.responses).forEach(name => addResponse(components.responses[name]));
+  addHeaders(Object.keys(components.headers).map(name => components.headers[name]));
+  // encodings have headers as well
+  for (let i = 0; i < result.length; ++i) {
+    const content = result[i];
+    for (const mediaType of Object.keys(content)) {
+      const encoding = content[mediaType].encoding;
+      Object.keys(encoding).forEach(property => addHeaders(encoding[property].headers));
+    }
+  }
+  return result;
+}
+
+/**
+ * Writes given model back as an OpenAPI 3.0 document, with the style, explode and required defaults of parameters
+ * and the nullable default of schemas made explicit (other defaults are omitted), path level parameters pushed down to operations,
+ * schemas used more than once hoisted into the components and referenced from there, and keys ordered deterministically.
+ */
+export function emitDocument(model: Model): OpenAPIObject {
+  const components = model.components;
+  const context: EmitContext = { refs: new Map<object, string>(), references: new Map<Schema, number>(), usedSchemaNames: [], pending: [] };
+  const sections: { [section: string]: { [name: string]: object } } = {
+    parameters: components.parameters,
+    responses: components.responses,
+    requestBodies: components.requestBodies,
+    headers: components.headers,
+    examples: components.examples,
+    links: components.links,
+    callbacks: components.callbacks
+  };
+  for (const section of Object.keys(sections)) {
+    for (const name of Object.keys(sections[section]).sort()) {
+      if (!context.refs.has(sections[section][name])) context.refs.set(sections[section][name], formatRef(section, name));
+    }
+  }
+
+  // schemas
+  const schemaNames = Object.keys(components.schemas).sort();
+  for (const name of schemaNames) countReferences(context.references, components.schemas[name]);
+  for (const content of getAllContent(model)) {
+    for (const mediaType of Object.keys(content)) {
+      const schema = content[mediaType].schema;
+      if (schema) countReferences(context.references, schema);
+    }
+  }
+  context.usedSchemaNames.push(...schemaNames);
+  for (const name of schemaNames) {
+    const schema = components.schemas[name];
+    if (context.refs.has(schema)) continue;
+    // aliases refer to the name the schema is defined under
+    const definedAt = schema.name !== undefined && components.schemas[schema.name] === schema ? schema.name : name;
+    context.refs.set(schema, formatRef("schemas", definedAt));
+    context.pending.push({ schema: schema, name: definedAt });
+  }
+
+  // servers and security shared by all operations are the document's
+  const isShared = (emit: (method: Method) => any) => {
+    const emitted = model.operations.map(method => JSON.stringify(emit(method)));
+    return emitted.length !== 0 && emitted.every(value => value === emitted[0]);
+  };
+  const shared = {
+    servers: isShared(method => method.servers.map(emitServer)),
+    security: isShared(method => emitSecurity(method.security))
+  };
+
+  const paths: { [path: string]: Method[] } = {};
+  for (const method of model.operations) {
+    const path = formatPath(method.urlSuffix);
+    (paths[path] = paths[path] || []).push(method);
+  }
+  const emittedPaths = emitMap(paths, methods => emitPathItem(context, methods, shared));
+  // components declared under several names (i.e. aliases via `$ref`) are defined under the first one and referenced from the others
+  const emitComponents = <T extends object>(section: string, map: { [name: string]: T }, emit: (component: T) => any) =>
+    emitMap(map, (component, name) => context.refs.get(component) === formatRef(section, name) ? emit(component) : { $ref: context.refs.get(component) });
+  const emittedComponents = {
+    parameters: emitComponents("parameters", components.parameters, parameter => emitParameter(context, parameter, false)),
+    responses: emitComponents("responses", components.responses, response => emitResponse(context, response, false)),
+    requestBodies: emitComponents("requestBodies", components.requestBodies, requestBody => emitRequestBody(context, requestBody, false)),
+    headers: emitComponents("headers", components.headers, header => emitHeader(context, header, false)),
+    examples: emitComponents("examples", components.examples, example => emitExample(context, example, false)),
+    links: emitComponents("links", components.links, link => emitLink(context, link, false)),
+    callbacks: emitComponents("callbacks", components.callbacks, callback => emitCallback(context, callback, false)),
+    securitySchemes: emitMap(components.securitySchemes, emitSecurityScheme)
+  };
+  const webhooks = emitMap(model.webhooks, methods => emitPathItem(context, methods, { servers: false, security: false }));
+
+  // emitted last, as emitting anything may hoist schemas
+  const schemas: { [name: string]: any } = {};
+  for (let i = 0; i < context.pending.length; ++i) {
+    schemas[context.pending[i].name] = emitSchema(context, context.pending[i].schema);
+  }
+  for (const name of schemaNames) {
+    const ref = context.refs.get(components.schemas[name]);
+    if (ref !== formatRef("schemas", name)) schemas[name] = { $ref: ref };
+  }
+
+  const result: any = compact({
+    openapi: "3.0.3",
+    info: model.info,
+    servers: shared.servers ? model.operations[0].servers.map(emitServer) : undefined,
+    tags: model.tags.length === 0 ? undefined : model.tags
+  });
+  // required, even if there are none
+  result.paths = emittedPaths;
+  if (shared.security && model.operations[0].security.length !== 0) result.security = emitSecurity(model.operations[0].security);
+  return Object.assign(result, compact({
+    components: compact(Object.assign({ schemas: emitMap(schemas, schema => schema) }, emittedComponents)),
+    // OpenAPI 3.0 has no webhooks (they were introduced in 3.1)
+    "x-webhooks": webhooks
+  }));
+}
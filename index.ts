@@ -1,8 +1,4 @@
-import { resolve } from "./object-resolver";
-import { run } from "./modeler";
-import { safeDump, safeLoad } from "js-yaml";
 import { Readable } from "stream";
-import { OpenAPIObject } from "./types/openapi";
 declare const require: any;
 const getUri = require("get-uri");
 const stripBom = require("strip-bom");
@@ -34,20 +30,3 @@ export async function ReadUri(uri: string): Promise<string> {
     throw new Error(`Failed to load '${uri}' (${e})`);
   }
 }
-
-
-async function main() {
-  try {
-    const rawDef = await ReadUri("https://raw.githubusercontent.com/OAI/OpenAPI-Specification/OpenAPI.next/examples/v3.0/petstore-expanded.yaml");
-    const def: OpenAPIObject = safeLoad(rawDef);
-    // console.log(safeDump(def, { skipInvalid: true }));
-    resolve(def);
-    // console.log(safeDump(def, { skipInvalid: true }));
-    const model = run(def);
-    console.log(safeDump(model, { skipInvalid: true }));
-  } catch (e) {
-    console.error(e);
-  }
-}
-
-main();
@@ -0,0 +1,61 @@
+// JSON Pointer, see https://tools.ietf.org/html/rfc6901
+
+export function escapePointerPart(part: string): string {
+  return part.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapePointerPart(part: string): string {
+  if (part.match(/~[^01]|~$/)) throw new Error(`invalid escape sequence in JSON pointer part '${part}'`);
+  return part.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/**
+ * Splits given JSON pointer (e.g. "/components/schemas/Pet") into its (unescaped) parts.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new Error(`invalid JSON pointer '${pointer}' (expected leading '/')`);
+  return pointer.slice(1).split("/").map(unescapePointerPart);
+}
+
+/**
+ * Parses the JSON pointer in given URI fragment (without the leading '#'), which is percent-encoded.
+ */
+export function parsePointerFragment(fragment: string): string[] {
+  let pointer: string;
+  try {
+    pointer = decodeURIComponent(fragment);
+  } catch (e) {
+    throw new Error(`invalid percent-encoding in URI fragment '${fragment}'`);
+  }
+  return parsePointer(pointer);
+}
+
+export function formatPointer(parts: (string | number)[]): string {
+  return parts.map(part => "/" + escapePointerPart(part.toString())).join("");
+}
+
+/**
+ * Looks up the node at given location, throwing if there is none.
+ */
+export function getByPointer(document: any, parts: string[]): any {
+  let node = document;
+  for (let i = 0; i < parts.length; ++i) {
+    const part = parts[i];
+    const found = typeof node === "object" && node !== null
+      && (Array.isArray(node) ? part.match(/^(0|[1-9][0-9]*)$/) !== null && +part < node.length : Object.prototype.hasOwnProperty.call(node, part));
+    if (!found) throw new Error(`'${part}' not found at '${formatPointer(parts.slice(0, i))}'`);
+    node = node[part];
+  }
+  return node;
+}
+
+/**
+ * Replaces the node at given (non-root) location.
+ */
+export function setByPointer(document: any, parts: string[], value: any): void {
+  if (parts.length === 0) throw new Error("cannot replace the document itself");
+  const parent = getByPointer(document, parts.slice(0, -1));
+  if (typeof parent !== "object" || parent === null) throw new Error(`cannot set '${formatPointer(parts)}' (parent is no object)`);
+  parent[parts[parts.length - 1]] = value;
+}
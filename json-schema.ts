@@ -0,0 +1,237 @@
+import { Schema } from "./modeler";
+import { escapePointerPart } from "./json-pointer";
+
+export type JsonSchemaDraft = "2020-12" | "draft-07";
+
+export interface JsonSchemaOptions {
+  // default: "2020-12"
+  draft?: JsonSchemaDraft;
+  // view of the schemas, dropping read-only properties from requests and write-only ones from responses (default: keep all)
+  direction?: "request" | "response";
+}
+
+interface ExportContext {
+  options: JsonSchemaOptions;
+  // number of references to each schema, those with more than one are hoisted into definitions
+  references: Map<Schema, number>;
+  // references to hoisted schemas, and to the variants of hoisted schemas that skip discriminator dispatch
+  refs: Map<Schema, string>;
+  baseRefs: Map<Schema, string>;
+  usedNames: string[];
+  definitions: { [name: string]: any };
+  // hoisted schemas not rendered yet
+  pending: { schema: Schema, name: string, base: boolean }[];
+}
+
+const metaSchemas: { [draft: string]: string } = {
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+  "draft-07": "http://json-schema.org/draft-07/schema#"
+};
+
+function getDefinitionsKeyword(options: JsonSchemaOptions): string {
+  return options.draft === "draft-07" ? "definitions" : "$defs";
+}
+
+function isDropped(options: JsonSchemaOptions, property: Schema): boolean {
+  return options.direction === "request" ? property.readOnly : (options.direction === "response" && property.writeOnly);
+}
+
+/**
+ * Mapped schemas a value of given schema is dispatched to, see `validateSchema`.
+ */
+function getDispatchTargets(schema: Schema): { value: string, schema: Schema }[] {
+  if (schema.type !== "object" || !schema.discriminator) return [];
+  const mapping = schema.discriminator.mapping;
+  return Object.keys(mapping).filter(value => mapping[value] !== schema).map(value => ({ value: value, schema: mapping[value] }));
+}
+
+function getChildren(options: JsonSchemaOptions, schema: Schema): Schema[] {
+  const children = (schema.allOf || []).concat(schema.oneOf || [], schema.anyOf || [], schema.not ? [schema.not] : []);
+  if (schema.type === "array") children.push(schema.items);
+  if (schema.type === "object") {
+    for (const name of Object.keys(schema.properties)) {
+      if (!isDropped(options, schema.properties[name])) children.push(schema.properties[name]);
+    }
+    if (schema.additionalProperties) children.push(schema.additionalProperties);
+    children.push(...getDispatchTargets(schema).map(target => target.schema));
+  }
+  return children;
+}
+
+function countReferences(options: JsonSchemaOptions, references: Map<Schema, number>, schema: Schema): void {
+  const count = references.get(schema) || 0;
+  references.set(schema, count + 1);
+  if (count !== 0) return;
+  for (const child of getChildren(options, schema)) countReferences(options, references, child);
+}
+
+function declare(context: ExportContext, schema: Schema, name: string, base: boolean): string {
+  let unique = name;
+  for (let i = 2; context.usedNames.indexOf(unique) !== -1; ++i) unique = name + i;
+  context.usedNames.push(unique);
+  const ref = `#/${getDefinitionsKeyword(context.options)}/${encodeURIComponent(escapePointerPart(unique))}`;
+  (base ? context.baseRefs : context.refs).set(schema, ref);
+  context.pending.push({ schema: schema, name: unique, base: base });
+  return ref;
+}
+
+/**
+ * Renders a reference to given schema if it is shared, or the schema inline otherwise.
+ * @param base Whether to skip discriminator dispatch, for members of `allOf` (which are dispatched to otherwise, indefinitely).
+ */
+function renderReference(context: ExportContext, schema: Schema, base: boolean = false): any {
+  const dispatching = !base && getDispatchTargets(schema).length !== 0;
+  const refs = dispatching ? context.refs : context.baseRefs;
+  const ref = refs.get(schema);
+  if (ref !== undefined) return { $ref: ref };
+  if ((context.references.get(schema) || 0) > 1) {
+    const name = schema.name || "Schema";
+    return { $ref: declare(context, schema, dispatching || getDispatchTargets(schema).length === 0 ? name : name + "Base", !dispatching) };
+  }
+  return dispatching ? renderDispatching(context, schema) : renderSchema(context, schema);
+}
+
+/**
+ * Renders given schema followed by dispatch to the schemas its discriminator maps to.
+ */
+function renderDispatching(context: ExportContext, schema: Schema): any {
+  const propertyName = schema.type === "object" && schema.discriminator ? schema.discriminator.propertyName : "";
+  const dispatch = getDispatchTargets(schema).map(target => ({
+    if: { properties: { [propertyName]: { const: target.value } }, required: [propertyName] },
+    then: renderReference(context, target.schema)
+  }));
+  return { allOf: [renderReference(context, schema, true)].concat(dispatch) };
+}
+
+function renderNumberConstraints(result: any, schema: Schema & { type: "integer" | "number" }): void {
+  if (schema.multipleOf !== undefined) result.multipleOf = schema.multipleOf;
+  // exclusiveness is a flag in OpenAPI 3.0, but a bound of its own in JSON Schema
+  if (schema.minimum !== undefined) result[schema.exclusiveMinimum ? "exclusiveMinimum" : "minimum"] = schema.minimum;
+  if (schema.maximum !== undefined) result[schema.exclusiveMaximum ? "exclusiveMaximum" : "maximum"] = schema.maximum;
+}
+
+function renderProperties(context: ExportContext, result: any, schema: Schema & { type: "object" }): void {
+  const options = context.options;
+  const properties: { [name: string]: any } = {};
+  for (const name of Object.keys(schema.properties)) {
+    if (!isDropped(options, schema.properties[name])) properties[name] = renderReference(context, schema.properties[name]);
+  }
+  if (schema.closed) {
+    // `additionalProperties` does not see into `allOf`, so inherited properties are listed as well
+    for (const name of Object.keys(schema.effectiveProperties)) {
+      if (!(name in properties) && !isDropped(options, schema.effectiveProperties[name])) properties[name] = true;
+    }
+  }
+  if (Object.keys(properties).length !== 0) result.properties = properties;
+  const required = schema.required.filter(name => !(name in schema.properties) || name in properties);
+  if (required.length !== 0) result.required = required;
+  if (schema.closed) result.additionalProperties = false;
+  else if (schema.additionalProperties) result.additionalProperties = renderReference(context, schema.additionalProperties);
+  if (schema.minProperties !== undefined) result.minProperties = schema.minProperties;
+  if (schema.maxProperties !== undefined) result.maxProperties = schema.maxProperties;
+}
+
+/**
+ * Renders given schema itself, referring to shared ones it consists of (see `renderReference`).
+ */
+function renderSchema(context: ExportContext, schema: Schema): any {
+  const result: any = {};
+  if (schema.title !== undefined) result.title = schema.title;
+  if (schema.description !== undefined) result.description = schema.description;
+  if (schema.typeDeclared) result.type = schema.type;
+
+  switch (schema.type) {
+    case "string":
+      if (schema.format === "byte") result.contentEncoding = "base64";
+      else if (schema.format !== undefined) result.format = schema.format;
+      if (schema.minLength !== undefined) result.minLength = schema.minLength;
+      if (schema.maxLength !== undefined) result.maxLength = schema.maxLength;
+      if (schema.pattern !== undefined) result.pattern = schema.pattern;
+      break;
+    case "integer":
+    case "number":
+      if (schema.format !== undefined) result.format = schema.format;
+      renderNumberConstraints(result, schema);
+      break;
+    case "array":
+      result.items = renderReference(context, schema.items);
+      if (schema.minItems !== undefined) result.minItems = schema.minItems;
+      if (schema.maxItems !== undefined) result.maxItems = schema.maxItems;
+      if (schema.uniqueItems) result.uniqueItems = true;
+      break;
+    case "object":
+      renderProperties(context, result, schema);
+      break;
+  }
+
+  if (schema.enum !== undefined) result.enum = schema.enum;
+  if (schema.allOf) result.allOf = schema.allOf.map(member => renderReference(context, member, true));
+  if (schema.oneOf) result.oneOf = schema.oneOf.map(alternative => renderReference(context, alternative));
+  if (schema.anyOf) result.anyOf = schema.anyOf.map(alternative => renderReference(context, alternative));
+  if (schema.not) result.not = renderReference(context, schema.not);
+
+  // annotations
+  if (schema.default !== undefined) result.default = schema.default;
+  if (schema.example !== undefined) result.examples = [schema.example];
+  if (schema.readOnly) result.readOnly = true;
+  if (schema.writeOnly) result.writeOnly = true;
+  if (schema.deprecated && context.options.draft !== "draft-07") result.deprecated = true;
+
+  if (!schema.nullable) return result;
+  if (!schema.allOf && !schema.oneOf && !schema.anyOf && !schema.not) {
+    if (schema.typeDeclared) result.type = [schema.type, "null"];
+    if (result.enum && result.enum.indexOf(null) === -1) result.enum = result.enum.concat([null]);
+    return result;
+  }
+  // composition applies to null as well, so it has to be allowed separately
+  return { anyOf: [{ type: "null" }, result] };
+}
+
+function createContext(options: JsonSchemaOptions, roots: Schema[]): ExportContext {
+  const references = new Map<Schema, number>();
+  for (const root of roots) countReferences(options, references, root);
+  return { options: options, references: references, refs: new Map<Schema, string>(), baseRefs: new Map<Schema, string>(), usedNames: [], definitions: {}, pending: [] };
+}
+
+function renderPending(context: ExportContext): void {
+  for (let i = 0; i < context.pending.length; ++i) {
+    const pending = context.pending[i];
+    const dispatching = !pending.base && getDispatchTargets(pending.schema).length !== 0;
+    context.definitions[pending.name] = dispatching ? renderDispatching(context, pending.schema) : renderSchema(context, pending.schema);
+  }
+}
+
+function createDocument(context: ExportContext, root: any): any {
+  const result = Object.assign({ $schema: metaSchemas[context.options.draft || "2020-12"] }, root);
+  if (context.pending.length !== 0) result[getDefinitionsKeyword(context.options)] = context.definitions;
+  return result;
+}
+
+/**
+ * Converts given schema into a JSON Schema document, with schemas it refers to more than once (including itself) in its definitions.
+ */
+export function exportSchema(schema: Schema, options: JsonSchemaOptions = {}): any {
+  const context = createContext(options, [schema]);
+  // the document itself is the definition of the root, so references to it (i.e. cycles) point at the document
+  const dispatching = getDispatchTargets(schema).length !== 0;
+  (dispatching ? context.refs : context.baseRefs).set(schema, "#");
+  const root = dispatching ? renderDispatching(context, schema) : renderSchema(context, schema);
+  renderPending(context);
+  return createDocument(context, root);
+}
+
+/**
+ * Converts given named schemas into a JSON Schema document defining each of them (under their names),
+ * as well as the schemas they share.
+ */
+export function exportSchemas(schemas: { [name: string]: Schema }, options: JsonSchemaOptions = {}): any {
+  const names = Object.keys(schemas);
+  const context = createContext(options, names.map(name => schemas[name]));
+  for (const name of names) {
+    if (!context.refs.has(schemas[name]) && !context.baseRefs.has(schemas[name])) {
+      declare(context, schemas[name], name, getDispatchTargets(schemas[name]).length === 0);
+    }
+  }
+  renderPending(context);
+  return createDocument(context, {});
+}
@@ -0,0 +1,213 @@
+import { formatPath, formatStatusCode, httpMethods, Method, Model } from "./modeler";
+import { OpenAPIObject, OperationObject } from "./types/OpenApi";
+import { createDiagnostics, createLocator, DiagnosticSeverity, loadYaml, SourceLocation } from "./diagnostics";
+import { adaptDocument } from "./adapter";
+import { SourcePath } from "./object-resolver";
+
+export interface LintResult extends SourceLocation {
+  rule: string;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+export interface LintContext {
+  // the (resolved) document, in the shape the modeler consumes (see `adaptDocument`), and its model
+  document: OpenAPIObject;
+  model: Model;
+  /**
+   * @param node The node of the document to report the problem at.
+   */
+  report(message: string, node?: any): void;
+}
+
+export interface LintRule {
+  name: string;
+  description: string;
+  // unless configured otherwise
+  severity: DiagnosticSeverity;
+  check(context: LintContext): void;
+}
+
+export interface LintConfig {
+  rules: { [name: string]: DiagnosticSeverity | "off" };
+}
+
+function forEachOperation(document: OpenAPIObject, callback: (operation: OperationObject, path: string, httpMethod: string) => void): void {
+  const paths = document.paths || {};
+  for (const path of Object.keys(paths)) {
+    for (const httpMethod of httpMethods) {
+      const operation: OperationObject | undefined = (paths[path] as any)[httpMethod];
+      if (operation) callback(operation, path, httpMethod);
+    }
+  }
+}
+
+function formatOperation(method: Method): string {
+  return `${method.httpMethod.toUpperCase()} ${formatPath(method.urlSuffix)}`;
+}
+
+/**
+ * Finds the object given operation of the model was parsed from.
+ */
+function getOperationObject(document: OpenAPIObject, method: Method): OperationObject | undefined {
+  const pathItem: any = (document.paths || {})[formatPath(method.urlSuffix)];
+  return pathItem && pathItem[method.httpMethod];
+}
+
+/**
+ * Calls back for each schema of given document that declares properties.
+ * Examples, defaults and extensions are skipped, they may contain anything.
+ */
+function forEachSchemaWithProperties(document: OpenAPIObject, callback: (schema: any) => void): void {
+  const visitedSchemas = new Set<any>();
+  const visitSchema = (schema: any) => {
+    if (typeof schema !== "object" || schema === null || visitedSchemas.has(schema)) return;
+    visitedSchemas.add(schema);
+    if (typeof schema.properties === "object" && schema.properties !== null) {
+      callback(schema);
+      Object.keys(schema.properties).forEach(name => visitSchema(schema.properties[name]));
+    }
+    ["items", "not", "additionalProperties"].forEach(key => visitSchema(schema[key]));
+    ["allOf", "oneOf", "anyOf"].forEach(key => (Array.isArray(schema[key]) ? schema[key] : []).forEach(visitSchema));
+  };
+  const schemas: any = (document.components || {}).schemas || {};
+  const visitedNodes = new Set<any>();
+  const visit = (node: any) => {
+    if (typeof node !== "object" || node === null || visitedNodes.has(node)) return;
+    visitedNodes.add(node);
+    for (const key of Object.keys(node)) {
+      if (["example", "examples", "default", "enum", "$path"].indexOf(key) !== -1 || key.startsWith("x-")) continue;
+      if (key === "schema" || node === schemas) visitSchema(node[key]);
+      else visit(node[key]);
+    }
+  };
+  visit(document);
+}
+
+/**
+ * Whether given schema of the document was referenced from the components (or Swagger 2.0 definitions) rather than written inline.
+ */
+function isComponentSchema(schema: any): boolean {
+  const path: SourcePath | undefined = schema.$path;
+  return path !== undefined && /^\/(components\/schemas|definitions)\/[^/]+$/.test(path.pointer);
+}
+
+export const builtinRules: LintRule[] = [
+  {
+    name: "operation-id",
+    description: "Every operation has an `operationId`.",
+    severity: "error",
+    check: context => forEachOperation(context.document, (operation, path, httpMethod) => {
+      if (!operation.operationId) context.report(`operation '${httpMethod.toUpperCase()} ${path}' has no 'operationId'`, operation);
+    })
+  },
+  {
+    name: "operation-tags-declared",
+    description: "Tags of operations are declared in the document's `tags`.",
+    severity: "warning",
+    check: context => {
+      const declared = (context.document.tags || []).map(tag => tag.name);
+      forEachOperation(context.document, (operation, path, httpMethod) => {
+        for (const tag of operation.tags || []) {
+          if (declared.indexOf(tag) === -1) context.report(`tag '${tag}' of operation '${httpMethod.toUpperCase()} ${path}' is not declared`, operation.tags);
+        }
+      });
+    }
+  },
+  {
+    name: "operation-description",
+    description: "Operations and their parameters have descriptions.",
+    severity: "warning",
+    check: context => {
+      for (const method of context.model.operations) {
+        const operation = getOperationObject(context.document, method);
+        if (!method.description) context.report(`operation '${formatOperation(method)}' has no description`, operation);
+        for (const parameter of method.parameters) {
+          if (!parameter.description) context.report(`${parameter.location} parameter '${parameter.name}' of operation '${formatOperation(method)}' has no description`, operation && operation.parameters);
+        }
+      }
+    }
+  },
+  {
+    name: "property-camel-case",
+    description: "Property names are camelCase.",
+    severity: "warning",
+    check: context => forEachSchemaWithProperties(context.document, schema => {
+      for (const name of Object.keys(schema.properties)) {
+        if (!name.match(/^[a-z][a-zA-Z0-9]*$/)) context.report(`property '${name}' is not camelCase`, schema.properties[name]);
+      }
+    })
+  },
+  {
+    name: "no-inline-response-schema",
+    description: "Object schemas of responses are named (i.e. referenced from the components) rather than inline.",
+    severity: "warning",
+    check: context => {
+      for (const method of context.model.operations) {
+        const operation = getOperationObject(context.document, method);
+        for (const methodResponse of method.responses) {
+          const key = formatStatusCode(methodResponse.key);
+          const response: any = operation && operation.responses[key];
+          const content = methodResponse.response.content;
+          for (const mediaType of Object.keys(content)) {
+            const schema = content[mediaType].schema;
+            const source = response && response.content && response.content[mediaType] && response.content[mediaType].schema;
+            if (schema && schema.type === "object" && Object.keys(schema.properties).length !== 0 && source && !isComponentSchema(source)) {
+              context.report(`response '${key}' (${mediaType}) of operation '${formatOperation(method)}' has an inline object schema`, source);
+            }
+          }
+        }
+      }
+    }
+  },
+  {
+    name: "response-4xx",
+    description: "Operations document at least one client error (4XX) response.",
+    severity: "warning",
+    check: context => {
+      for (const method of context.model.operations) {
+        if (!method.responses.some(methodResponse => methodResponse.key[0] === "4")) {
+          const operation = getOperationObject(context.document, method);
+          context.report(`operation '${formatOperation(method)}' documents no 4XX response`, operation && operation.responses);
+        }
+      }
+    }
+  }
+];
+
+/**
+ * Parses a lint configuration (JSON or YAML), e.g. `rules: { operation-id: warning, response-4xx: off }`.
+ */
+export function loadLintConfig(text: string, rules: LintRule[] = builtinRules): LintConfig {
+  const config = loadYaml(text) || {};
+  const configuredRules = config.rules || {};
+  if (typeof configuredRules !== "object" || Array.isArray(configuredRules)) throw new Error("expected 'rules' to map rule names to severities");
+  for (const name of Object.keys(configuredRules)) {
+    if (!rules.some(rule => rule.name === name)) throw new Error(`unknown lint rule '${name}' (expected ${rules.map(rule => `'${rule.name}'`).join(", ")})`);
+    const severity = configuredRules[name];
+    if (severity !== "error" && severity !== "warning" && severity !== "off") throw new Error(`invalid severity '${severity}' of lint rule '${name}' (expected 'error', 'warning' or 'off')`);
+  }
+  return { rules: configuredRules };
+}
+
+/**
+ * Checks given (resolved) document and its model against given rules.
+ * @param documentUri URI the document was loaded from, used to locate results.
+ */
+export function lint(document: any, model: Model, config: LintConfig = { rules: {} }, rules: LintRule[] = builtinRules, documentUri?: string): LintResult[] {
+  // problems of the document itself are the modeler's to report; only used to locate nodes of converted (Swagger 2.0) documents
+  const diagnostics = createDiagnostics(document, documentUri);
+  const adaptedDocument = adaptDocument(document, diagnostics);
+  const locate = createLocator(document, documentUri, diagnostics.origins);
+  const results: LintResult[] = [];
+  for (const rule of rules) {
+    const severity = config.rules[rule.name] || rule.severity;
+    if (severity === "off") continue;
+    rule.check({
+      document: adaptedDocument,
+      model: model,
+      report: (message, node) => results.push(Object.assign({ rule: rule.name, severity: severity, message: message }, locate(node)))
+    });
+  }
+  return results;
+}
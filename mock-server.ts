@@ -0,0 +1,158 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { Content, Method, Model, Parameter, Response } from "./modeler";
+import { createRouter, Router } from "./router";
+import { generateSample } from "./sampler";
+import { isJsonMediaType, serializeParameter } from "./serializer";
+import { matchStatus, validateRequest } from "./validator";
+
+export interface MockServerOptions {
+  // whether to reject invalid requests with status 400 (default: true)
+  validate?: boolean;
+}
+
+// request headers that let clients pick what the mock responds with
+const statusHeader = "x-mock-status";
+const exampleHeader = "x-mock-example";
+
+/**
+ * Picks the response declared for the requested status code, or the first success response otherwise.
+ */
+function selectResponse(method: Method, status?: number): { status: number, response: Response } | undefined {
+  if (status !== undefined) {
+    const requested = method.responses.filter(methodResponse => matchStatus(methodResponse.key, status))[0];
+    return requested && { status: status, response: requested.response };
+  }
+  const methodResponse = method.responses.filter(methodResponse => methodResponse.key[0] === "2")[0] || method.responses[0];
+  if (!methodResponse) return undefined;
+  // "2XX" becomes 200, the default response ("XXX") is assumed to be a success
+  const code = parseInt(methodResponse.key.replace(/X/g, "0"), 10);
+  return { status: code === 0 ? 200 : code, response: methodResponse.response };
+}
+
+function matchMediaRange(range: string, mediaType: string): boolean {
+  const rangeParts = range.toLowerCase().split("/");
+  const parts = mediaType.toLowerCase().split("/");
+  return (rangeParts[0] === "*" || parts[0] === "*" || rangeParts[0] === parts[0])
+    && (rangeParts[1] === "*" || parts[1] === "*" || rangeParts[1] === parts[1]);
+}
+
+/**
+ * Negotiates the media type to respond with, see https://tools.ietf.org/html/rfc7231#section-5.3.2
+ * @returns The key into given content and the concrete Content-Type, or undefined if nothing acceptable is declared.
+ */
+function selectMediaType(content: Content, accept?: string): { key: string, contentType: string } | undefined {
+  const ranges = (accept || "*/*").split(",").map((part, index) => {
+    const params = part.split(";");
+    const q = params.slice(1).map(param => param.trim().match(/^q=([0-9.]+)$/)).filter(match => match !== null)[0];
+    return { range: params[0].trim(), q: q ? parseFloat(q[1]) : 1, index: index };
+  }).filter(range => range.q > 0).sort((a, b) => b.q - a.q || a.index - b.index);
+  for (const range of ranges) {
+    const key = Object.keys(content).filter(mediaType => matchMediaRange(range.range, mediaType))[0];
+    if (key === undefined) continue;
+    const concrete = key.indexOf("*") === -1 ? key : (range.range.indexOf("*") === -1 ? range.range : "application/json");
+    return { key: key, contentType: concrete };
+  }
+  return undefined;
+}
+
+/**
+ * Picks the value of the requested example, or of the first one (preferring an inline `example`).
+ * @returns undefined if there is none, throws if the requested one does not exist.
+ */
+function selectExample(examples: { [name: string]: { value?: any } }, name?: string): any {
+  if (name !== undefined) {
+    if (!(name in examples)) throw new Error(`unknown example '${name}' (expected ${Object.keys(examples).map(x => `'${x}'`).join(", ")})`);
+    return examples[name].value;
+  }
+  const names = Object.keys(examples).sort((a, b) => (a === "" ? 0 : 1) - (b === "" ? 0 : 1));
+  const found = names.filter(name => examples[name].value !== undefined)[0];
+  return found !== undefined ? examples[found].value : undefined;
+}
+
+function formatBody(contentType: string, value: any): string {
+  if (typeof value === "string" && !isJsonMediaType(contentType)) return value;
+  return JSON.stringify(value, null, 2);
+}
+
+function send(res: ServerResponse, status: number, headers: { [name: string]: string }, body?: string): void {
+  res.writeHead(status, headers);
+  res.end(body);
+}
+
+function sendError(res: ServerResponse, status: number, body: any, headers: { [name: string]: string } = {}): void {
+  send(res, status, Object.assign({ "Content-Type": "application/json" }, headers), JSON.stringify(body, null, 2));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    let result = "";
+    req.setEncoding("utf8");
+    req.on("data", (data: string) => result += data);
+    req.on("end", () => resolve(result));
+    req.on("error", (err: Error) => reject(err));
+  });
+}
+
+function getRequestHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(", ") : value;
+}
+
+async function handle(model: Model, router: Router, options: MockServerOptions, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const route = router.match(req.method || "GET", req.url || "/");
+  if (route.type === "not-found") return sendError(res, 404, { message: `no operation matches '${req.url}'` });
+  if (route.type === "method-not-allowed") {
+    return sendError(res, 405, { message: `method '${req.method}' is not allowed` }, { "Allow": route.allowedMethods.map(x => x.toUpperCase()).join(", ") });
+  }
+
+  const body = await readBody(req);
+  if (options.validate !== false) {
+    const validation = validateRequest(model, { method: req.method || "GET", url: req.url || "/", headers: req.headers, body: body });
+    if (validation.errors.length !== 0) return sendError(res, 400, { errors: validation.errors });
+  }
+
+  // response
+  const requestedStatus = getRequestHeader(req, statusHeader);
+  const status = requestedStatus !== undefined ? parseInt(requestedStatus, 10) : undefined;
+  if (status !== undefined && !(status >= 100 && status <= 599)) return sendError(res, 400, { message: `invalid status code '${requestedStatus}' in '${statusHeader}'` });
+  const selected = selectResponse(route.method, status);
+  if (!selected) return sendError(res, 500, { message: `no response declared${status !== undefined ? ` for status code ${status}` : ""}` });
+
+  const headers: { [name: string]: string } = {};
+  const exampleName = getRequestHeader(req, exampleHeader);
+  try {
+    for (const header of selected.response.headers) {
+      if (header.name.toLowerCase() === "content-type") continue;
+      const headerContent = header.content[""];
+      let value = selectExample(headerContent.examples);
+      if (value === undefined && headerContent.schema) value = generateSample(headerContent.schema, { direction: "response" });
+      if (value === undefined) continue;
+      const parameter: Parameter = Object.assign({ location: "header" as "header" }, header);
+      headers[header.name] = serializeParameter(parameter, value);
+    }
+
+    const content = selected.response.content;
+    if (Object.keys(content).length === 0) return send(res, selected.status, headers);
+    const mediaType = selectMediaType(content, getRequestHeader(req, "accept"));
+    if (!mediaType) return sendError(res, 406, { message: `none of ${Object.keys(content).map(x => `'${x}'`).join(", ")} is acceptable` });
+    const mediaTypeContent = content[mediaType.key];
+    let value = selectExample(mediaTypeContent.examples, exampleName);
+    if (value === undefined && mediaTypeContent.schema) value = generateSample(mediaTypeContent.schema, { direction: "response" });
+    headers["Content-Type"] = mediaType.contentType;
+    send(res, selected.status, headers, value === undefined ? "" : formatBody(mediaType.contentType, value));
+  } catch (e) {
+    sendError(res, 400, { message: e.message });
+  }
+}
+
+/**
+ * Creates an HTTP server that responds to requests for the model's operations with examples of the declared responses,
+ * or samples generated from their schemas.
+ * Clients pick a status code via the `X-Mock-Status` header and a named example via `X-Mock-Example`.
+ */
+export function createMockServer(model: Model, options: MockServerOptions = {}): HttpServer {
+  const router = createRouter(model);
+  return createServer((req, res) => {
+    handle(model, router, options, req, res).catch(e => sendError(res, 500, { message: e instanceof Error ? e.message : String(e) }));
+  });
+}
@@ -1,4 +1,6 @@
 import {
+  CallbackObject,
+  ComponentsObject,
   ContentObject,
   ExampleObject,
   ExternalDocumentationObject,
@@ -7,45 +9,114 @@ import {
   InfoObject,
   ISchemaObject,
   LinkObject,
+  OAuthFlowsObject,
   OpenAPIObject,
+  OperationObject,
   ParameterObject,
+  PathItemObject,
   ReferenceObject,
   RequestBodyObject,
   ResponseObject,
   SecurityRequirementObject,
   SecuritySchemeObject,
   ServerObject,
-  ServerVariableObject,
   TagObject,
   XmlObject
 } from './types/OpenApi';
+import { SourcePath } from "./object-resolver";
+import { adaptDocument, adaptSchema } from "./adapter";
+import { SwaggerObject } from "./types/Swagger";
+import { createDiagnostics, Diagnostic, Diagnostics } from "./diagnostics";
+import { getByPointer, parsePointer, parsePointerFragment } from "./json-pointer";
+import { resolve as resolveUri } from "url";
 
 function throwEx(errorMessage?: string): never {
   throw new Error(errorMessage);
 }
 
-const httpMethods: ("get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace")[]
+// in the order of the path item object
+export const httpMethods: ("get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace")[]
   = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
 
-type Path = PathComponent[];
+export type Path = PathComponent[];
 type PathComponent = PathComponentConstant | PathComponentParameter;
 type PathComponentConstant = { type: "const", value: string };
 type PathComponentParameter = { type: "param", name: string };
 
+/**
+ * Formats given path the way documents declare it, e.g. "/pets/{id}".
+ */
+export function formatPath(path: Path): string {
+  return path.map(component => component.type === "const" ? component.value : `{${component.name}}`).join("");
+}
 
-interface Response {
-  key: string;
+
+export interface Response {
   description?: string;
   headers: Header[];
+  content: Content;
+  links: { [name: string]: Link };
+}
+
+type RuntimeExpressionSource =
+  { source: "header" | "query" | "path", name: string } |
+  { source: "body", pointer: string };
+type RuntimeExpression =
+  { type: "url" } |
+  { type: "method" } |
+  { type: "statusCode" } |
+  ({ type: "request" | "response" } & RuntimeExpressionSource);
+
+type UrlTemplate = UrlTemplateComponent[];
+type UrlTemplateComponent = { type: "const", value: string } | { type: "expression", expression: RuntimeExpression };
+
+interface CallbackRequest {
+  expression: string;
+  url: UrlTemplate;
+  operations: Method[];
+}
+type Callback = CallbackRequest[];
+
+type LinkValue = { type: "const", value: any } | { type: "expression", expression: RuntimeExpression };
+
+interface Link {
+  operationId?: string;
+  operationRef?: string;
+  // target operation, if it is part of the model
+  operation?: Method;
+  parameters: { [name: string]: LinkValue };
+  requestBody?: LinkValue;
+  description?: string;
+  server?: Server;
+}
+
+interface MethodResponse {
+  // HTTP status code pattern, e.g. "200", "2XX" or "XXX" (default)
+  key: string;
+  response: Response;
 }
 
-interface Server {
+export interface Server {
+  // URL template, resolved against the document's URI if relative
+  url: string;
   urlPrefix: Path;
+  // components of the URL template (absent if not part of it)
+  scheme?: Path;
+  host?: Path;
+  port?: Path;
+  basePath: Path;
   description?: string;
-  variables: { [name: string]: ServerVariableObject };
+  variables: { [name: string]: ServerVariable };
 }
 
-interface Method {
+export interface ServerVariable {
+  default: string;
+  enum?: string[];
+  description?: string;
+}
+
+export interface Method {
+  httpMethod: "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace";
   urlSuffix: Path;
   tags: string[];
   summary?: string;
@@ -54,53 +125,202 @@ interface Method {
   operationId?: string;
   parameters: Parameter[];
   parameterBody?: ParameterBody;
-  responses: Response[];
-  // callbacks
+  responses: MethodResponse[];
+  callbacks: { [name: string]: Callback };
   deprecated: boolean;
   security: SecurityRequirementsAlternatives;
   servers: Server[];
 }
 
+type SecurityScheme = SecuritySchemeApiKey | SecuritySchemeHttp | SecuritySchemeOAuth2 | SecuritySchemeOpenIdConnect;
+
+interface SecuritySchemeBase {
+  // key in the components' `securitySchemes`
+  name: string;
+  description?: string;
+}
+
+interface SecuritySchemeApiKey extends SecuritySchemeBase {
+  type: "apiKey";
+  parameterName: string;
+  in: "query" | "header" | "cookie";
+}
+
+interface SecuritySchemeHttp extends SecuritySchemeBase {
+  type: "http";
+  // lower case, e.g. "basic" or "bearer"
+  scheme: string;
+  bearerFormat?: string;
+}
+
+interface SecuritySchemeOAuth2 extends SecuritySchemeBase {
+  type: "oauth2";
+  flows: OAuthFlow[];
+}
+
+interface SecuritySchemeOpenIdConnect extends SecuritySchemeBase {
+  type: "openIdConnect";
+  openIdConnectUrl: string;
+}
+
+interface OAuthFlow {
+  type: "implicit" | "password" | "clientCredentials" | "authorizationCode";
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: { [scope: string]: string };
+}
+
 interface SecurityRequirement {
-  scheme: SecuritySchemeObject;
+  scheme: SecurityScheme;
   scopes: string[];
 }
 type SecurityRequirements = SecurityRequirement[];
 type SecurityRequirementsAlternatives = SecurityRequirements[];
 
+interface Components {
+  schemas: { [name: string]: Schema };
+  parameters: { [name: string]: Parameter };
+  responses: { [name: string]: Response };
+  requestBodies: { [name: string]: ParameterBody };
+  headers: { [name: string]: Header };
+  examples: { [name: string]: ExampleObject };
+  links: { [name: string]: Link };
+  callbacks: { [name: string]: Callback };
+  securitySchemes: { [name: string]: SecurityScheme };
+}
+
 export interface Model {
   info: InfoObject;
   operations: Method[];
+  webhooks: { [name: string]: Method[] };
   tags: TagObject[];
+  components: Components;
 }
 
-function parsePath(path: string): Path {
+/**
+ * @param node The node to report problems at.
+ */
+function parsePath(context: ParseContext, path: string, node?: any): Path {
   const result: Path = [];
   const parts1 = path.split("{");
   result.push({ type: "const", value: parts1.shift() || "" });
   for (const part of parts1) {
     const parts2 = part.split("}");
-    if (parts2.length !== 2) {
-      throw new Error("invalid path format");
+    const name = parts2.shift() || "";
+    if (parts2.length !== 1 || name === "") {
+      context.diagnostics.report("error", "invalid-path-template", `invalid path template '${path}'`, node);
+      // fall back to treating the path literally
+      return [{ type: "const", value: path }];
     }
-    result.push({ type: "param", name: parts2.shift() || throwEx("empty parameter names not allowed") });
+    result.push({ type: "param", name: name });
     result.push({ type: "const", value: parts2.shift() || "" });
   }
   return result.filter(x => x.type !== "const" || x.value !== "");
 }
 
-function parseServer(server: ServerObject): Server {
+/**
+ * Resolves given (relative) server URL template against the URI of the document, if that one is served via HTTP(S).
+ */
+function resolveServerUrl(context: ParseContext, url: string): string {
+  if (!context.documentUri || !context.documentUri.match(/^https?:/i)) return url;
+
+  // the URL parser would percent-encode the braces, so substitute the variables meanwhile
+  const variables: string[] = [];
+  const substituted = url.replace(/\{[^}]*\}/g, variable => `servervariable${variables.push(variable) - 1}z`);
+  if (substituted.match(/^[a-z][a-z0-9+.-]*:/i)) return url;
+  return resolveUri(context.documentUri, substituted).replace(/servervariable([0-9]+)z/g, (_, index) => variables[+index]);
+}
+
+function splitServerUrl(url: string): { scheme?: string, host?: string, port?: string, path: string } {
+  const match = url.match(/^(?:([^:/?#]+):(?=\/\/))?(?:\/\/([^/?#]*))?([^?#]*)/) as RegExpMatchArray;
+  let host: string | undefined = match[2];
+  let port: string | undefined = undefined;
+  if (host !== undefined) {
+    host = host.slice(host.lastIndexOf("@") + 1);
+    const portMatch = host.match(/^(.*[^\]]):([^:]*)$/);
+    if (portMatch) {
+      host = portMatch[1];
+      port = portMatch[2];
+    }
+  }
+  return { scheme: match[1], host: host, port: port, path: match[3] };
+}
+
+function parseServer(context: ParseContext, server: ServerObject): Server | undefined {
+  if (typeof server.url !== "string") {
+    context.diagnostics.report("error", "missing-server-url", "expected 'url' on server", server);
+    return undefined;
+  }
+  const url = resolveServerUrl(context, server.url);
+  const urlPrefix = parsePath(context, url, server);
+  const parts = splitServerUrl(url);
+
+  // validate variables
+  const variables: { [name: string]: ServerVariable } = {};
+  const declaredVariables = server.variables || {};
+  for (const name of keys(declaredVariables)) {
+    const variable = declaredVariables[name];
+    if (typeof variable.default !== "string") {
+      context.diagnostics.report("error", "invalid-server-variable", `server variable '${name}' has no default value`, variable);
+    } else if (variable.enum && variable.enum.length === 0) {
+      context.diagnostics.report("error", "invalid-server-variable", `server variable '${name}' has an empty enum`, variable);
+    } else if (variable.enum && variable.enum.indexOf(variable.default) === -1) {
+      context.diagnostics.report("error", "invalid-server-variable", `default value '${variable.default}' of server variable '${name}' is not part of its enum`, variable);
+    }
+    variables[name] = {
+      default: variable.default,
+      enum: variable.enum,
+      description: variable.description
+    };
+  }
+  for (const component of urlPrefix) {
+    if (component.type === "param" && !(component.name in variables)) {
+      context.diagnostics.report("error", "undeclared-server-variable", `server variable '${component.name}' used in '${server.url}' is not declared`, server);
+    }
+  }
+
   return {
-    urlPrefix: parsePath(server.url),
+    url: url,
+    urlPrefix: urlPrefix,
+    scheme: parts.scheme !== undefined ? parsePath(context, parts.scheme, server) : undefined,
+    host: parts.host !== undefined ? parsePath(context, parts.host, server) : undefined,
+    port: parts.port !== undefined ? parsePath(context, parts.port, server) : undefined,
+    basePath: parsePath(context, parts.path, server),
     description: server.description,
-    variables: server.variables || {}
+    variables: variables
   };
 }
-function parseServers(servers?: ServerObject[]): Server[] | undefined {
-  return servers ? servers.map(parseServer) : undefined;
+
+/**
+ * Expands given server into a concrete base URL.
+ * @param values Values of server variables, defaults are used for the others.
+ */
+export function expandServer(server: Server, values: { [name: string]: string } = {}): string {
+  return server.urlPrefix.map(component => {
+    if (component.type === "const") return component.value;
+    const name = component.name;
+    const variable = server.variables[name];
+    const value = values[name] !== undefined ? values[name] : (variable ? variable.default : undefined);
+    if (value === undefined) throw new Error(`no value for server variable '${name}'`);
+    if (variable && variable.enum && variable.enum.indexOf(value) === -1) {
+      throw new Error(`value '${value}' of server variable '${name}' is not one of ${variable.enum.map(x => `'${x}'`).join(", ")}`);
+    }
+    return value;
+  }).join("");
+}
+function parseServers(context: ParseContext, servers?: ServerObject[]): Server[] | undefined {
+  if (!servers) return undefined;
+  const result: Server[] = [];
+  for (const server of servers) {
+    const parsed = parseServer(context, server);
+    if (parsed) result.push(parsed);
+  }
+  // the enclosing servers apply if none is valid
+  return result.length === 0 && servers.length !== 0 ? undefined : result;
 }
 
-interface Encoding {
+export interface Encoding {
   contentType: string;
   headers: Header[];
   format: Format;
@@ -113,7 +333,7 @@ interface MediaTypeContent {
   encoding: { [property: string]: Encoding };
 }
 
-interface Content {
+export interface Content {
   [mediatype: string]: MediaTypeContent;
 }
 
@@ -123,7 +343,7 @@ interface ParameterCommonBase {
   required: boolean;
 }
 
-interface Format {
+export interface Format {
   style: "matrix" | "label" | "form" | "simple" | "spaceDelimited" | "pipeDelimited" | "deepObject";
   explode: boolean;
 }
@@ -150,20 +370,24 @@ interface ParameterPath extends ParameterBase {
 interface ParameterCookie extends ParameterBase {
   location: "cookie";
 }
-type Parameter = ParameterQuery | ParameterHeader | ParameterPath | ParameterCookie;
+export type Parameter = ParameterQuery | ParameterHeader | ParameterPath | ParameterCookie;
 
-interface ParameterBody extends ParameterCommonBase { }
+export interface ParameterBody extends ParameterCommonBase { }
 
 function normalizeExamples(obj: {
   examples?: { [mediatype: string]: ExampleObject | ReferenceObject; };
-  example?: ExampleObject | ReferenceObject;
+  example?: any;
 }): { [mediatype: string]: ExampleObject } {
-  const examples: { [mediatype: string]: ExampleObject } = obj.examples as any /*no ReferenceObject*/ || {};
-  if (obj.example) examples[""] = { value: obj.example };
+  const examples: { [mediatype: string]: ExampleObject } = Object.assign({}, obj.examples as any /*no ReferenceObject*/);
+  if (obj.example !== undefined) examples[""] = { value: obj.example };
   return examples;
 }
 
 interface SchemaBase {
+  // name of the schema this was referenced by, if any (see `$path`)
+  name?: string;
+  // whether `type` is given (schemas without are modeled as objects, but accept any value)
+  typeDeclared: boolean;
   nullable: boolean;
   readOnly: boolean;
   writeOnly: boolean;
@@ -214,9 +438,17 @@ interface SchemaObject extends SchemaBase {
   type: "object";
   properties: { [name: string]: Schema };
   required: string[];
-  discriminator?: { propertyName: string; mapping?: { [discriminatorValue: string]: string } }; // TODO: make values schemas!
+  // own properties merged with those of `allOf` members
+  effectiveProperties: { [name: string]: Schema };
+  effectiveRequired: string[];
+  // named schemas this one extends via `allOf`, and those extending this one
+  baseSchemas: Schema[];
+  derivedSchemas: Schema[];
+  discriminator?: { propertyName: string; mapping: { [discriminatorValue: string]: Schema } };
   // constraints
   additionalProperties?: Schema;
+  // whether properties not listed are rejected (`additionalProperties: false`)
+  closed: boolean;
   maxProperties?: number;
   minProperties?: number;
 }
@@ -235,16 +467,46 @@ interface SchemaNull extends SchemaBase {
   type: "null";
 }
 
-type Schema = SchemaString | SchemaInteger | SchemaNumber | SchemaObject | SchemaArray | SchemaBoolean | SchemaNull;
+export type Schema = SchemaString | SchemaInteger | SchemaNumber | SchemaObject | SchemaArray | SchemaBoolean | SchemaNull;
 
-function parseSchemas(schemas?: ISchemaObject[]): Schema[] | undefined {
-  return schemas ? schemas.map(parseSchema) : undefined;
+function parseSchemas(context: ParseContext, schemas?: ISchemaObject[]): Schema[] | undefined {
+  return schemas ? schemas.map(schema => parseSchema(context, schema)) : undefined;
 }
-function parseSchemaEx(schema?: ISchemaObject): Schema | undefined {
-  return schema ? parseSchema(schema) : undefined;
+function parseSchemaEx(context: ParseContext, schema?: ISchemaObject): Schema | undefined {
+  return schema ? parseSchema(context, schema) : undefined;
+}
+
+/**
+ * Name of the schema given (resolved) one was referenced as: its key in the components' schemas (or Swagger 2.0 definitions),
+ * its top-level key in an external document, or the base name of a whole external document. Other targets are anonymous.
+ */
+function getSchemaName(context: ParseContext, schema: ISchemaObject): string | undefined {
+  const path: SourcePath | undefined = schema.$path;
+  if (!path) return undefined;
+  const parts = parsePointer(path.pointer);
+  if (parts.length === 3 && parts[0] === "components" && parts[1] === "schemas") return parts[2];
+  if (parts.length === 2 && parts[0] === "definitions") return parts[1];
+  if (path.documentUri === (context.documentUri || "")) return undefined;
+  if (parts.length === 1) return parts[0];
+  if (parts.length !== 0) return undefined;
+  const file = path.documentUri.replace(/[?#].*$/, "").split("/").pop() || "";
+  return decodeURIComponent(file).replace(/\.[^.]*$/, "") || undefined;
 }
-function parseSchema(schema: ISchemaObject): Schema { // TODO: pre-caching to prevent circular references!
-  const result: SchemaBase = {
+
+function parseSchema(context: ParseContext, source: ISchemaObject): Schema {
+  const cached = context.schemas.get(source);
+  if (cached) return cached;
+
+  // register before descending, so cycles end up as edges to this very instance
+  const result: Schema = {} as any;
+  context.schemas.set(source, result);
+  context.sources.set(result, source);
+  context.allSchemas.push(result);
+
+  const schema = adaptSchema(source);
+  const base: SchemaBase = {
+    name: getSchemaName(context, schema),
+    typeDeclared: schema.type !== undefined,
     nullable: schema.nullable || false,
     readOnly: schema.readOnly || false,
     writeOnly: schema.writeOnly || false,
@@ -255,14 +517,21 @@ function parseSchema(schema: ISchemaObject): Schema { // TODO: pre-caching to pr
 
     title: schema.title,
     enum: schema.enum,
-    allOf: parseSchemas(schema.allOf),
-    oneOf: parseSchemas(schema.oneOf),
-    anyOf: parseSchemas(schema.anyOf),
-    not: parseSchemaEx(schema.not),
+    allOf: parseSchemas(context, schema.allOf),
+    oneOf: parseSchemas(context, schema.oneOf),
+    anyOf: parseSchemas(context, schema.anyOf),
+    not: parseSchemaEx(context, schema.not),
     description: schema.description,
     default: schema.default
   };
-  const type = schema.type || "object";
+  Object.assign(result, base);
+  let type = schema.type as string || "object";
+  if (["string", "integer", "number", "object", "array", "boolean", "null"].indexOf(type) === -1) {
+    context.diagnostics.report("error", "unknown-schema-type", `unknown type '${type}'`, source);
+    // fall back to an unconstrained object
+    type = "object";
+    result.typeDeclared = false;
+  }
   switch (type) {
     case "string":
       return Object.assign(result, {
@@ -280,9 +549,9 @@ function parseSchema(schema: ISchemaObject): Schema { // TODO: pre-caching to pr
         // constraints
         multipleOf: schema.multipleOf,
         maximum: schema.maximum,
-        exclusiveMaximum: schema.exclusiveMaximum || false,
+        exclusiveMaximum: schema.exclusiveMaximum === true,
         minimum: schema.minimum,
-        exclusiveMinimum: schema.exclusiveMinimum || false
+        exclusiveMinimum: schema.exclusiveMinimum === true
       });
     case "number":
       return Object.assign(result, {
@@ -291,50 +560,58 @@ function parseSchema(schema: ISchemaObject): Schema { // TODO: pre-caching to pr
         // constraints
         multipleOf: schema.multipleOf,
         maximum: schema.maximum,
-        exclusiveMaximum: schema.exclusiveMaximum || false,
+        exclusiveMaximum: schema.exclusiveMaximum === true,
         minimum: schema.minimum,
-        exclusiveMinimum: schema.exclusiveMinimum || false
+        exclusiveMinimum: schema.exclusiveMinimum === true
       });
     case "object":
       const props = schema.properties || {};
       const properties: { [name: string]: Schema } = {};
-      for (const propertyName of keys(props)) {
-        properties[propertyName] = parseSchema(props[propertyName]);
-      }
-
-      return Object.assign(result, {
+      Object.assign(result, {
         type: type,
         properties: properties,
         required: schema.required || [],
-        discriminator: schema.discriminator,
-        additionalProperties: !schema.additionalProperties
-          ? undefined
-          : (schema.additionalProperties === true
-            ? parseSchema({})
-            : parseSchema(schema.additionalProperties as SchemaObject)),
+        // see `normalizeComposition`
+        effectiveProperties: properties,
+        effectiveRequired: schema.required || [],
+        baseSchemas: [],
+        derivedSchemas: [],
+        discriminator: schema.discriminator ? { propertyName: schema.discriminator.propertyName, mapping: {} } : undefined,
         // constraints
         maxProperties: schema.maxProperties,
         minProperties: schema.minProperties
       });
-    case "array":
+      for (const propertyName of keys(props)) {
+        properties[propertyName] = parseSchema(context, props[propertyName]);
+      }
       return Object.assign(result, {
+        additionalProperties: !schema.additionalProperties
+          ? undefined
+          : (schema.additionalProperties === true
+            ? parseSchema(context, {})
+            : parseSchema(context, schema.additionalProperties as ISchemaObject)),
+        closed: schema.additionalProperties === false
+      });
+    case "array":
+      Object.assign(result, {
         type: type,
-        items: parseSchema(schema.items as ISchemaObject),
         // constraints
         maxItems: schema.maxItems,
         minItems: schema.minItems,
         uniqueItems: schema.uniqueItems
       });
-    case "boolean":
       return Object.assign(result, {
-        type: type
+        // 3.1 allows omitting `items`, i.e. items are unconstrained
+        items: parseSchema(context, schema.items || {})
       });
-    case "null":
+    case "boolean":
       return Object.assign(result, {
-        type: type
+        type: type as "boolean"
       });
     default:
-      throw new Error(`unknown type '${type}'`);
+      return Object.assign(result, {
+        type: type as "null"
+      });
   }
 }
 
@@ -343,55 +620,68 @@ function normalizeFormat(location: "query" | "header" | "path" | "cookie", obj:
   explode?: boolean;
 }): Format {
   const style = obj.style || ((location === "query" || location === "cookie") ? "form" : "simple");
-  const explode = obj.explode || (style === "form");
+  const explode = obj.explode !== undefined ? obj.explode : (style === "form");
   return {
     style: style,
     explode: explode
   }
 }
 
-function parseParameterBase(parameter: ParameterObject): ParameterBase {
+/**
+ * @param node The node to report problems at.
+ */
+function parseParameterBase(context: ParseContext, parameter: ParameterObject, node: any): ParameterBase {
   const location = parameter.in;
 
   // validate
-  if (location === "path" && !parameter.required) throw new Error("expected required=true on path parameter");
+  if (location === "path" && !parameter.required) {
+    context.diagnostics.report("error", "path-parameter-not-required", `expected required=true on path parameter '${parameter.name}'`, node);
+  }
 
   // normalize
-  const style = parameter.style || ((location === "query" || location === "cookie") ? "form" : "simple");
-  const explode = parameter.explode || (style === "form");
   const examples = normalizeExamples(parameter);
-  const content: Content = parameter.content ? parseContent(parameter.content) : {};
-  content[""] = { schema: parameter.schema ? parseSchema(parameter.schema) : undefined, examples: examples, encoding: {} };
+  const content: Content = parameter.content ? parseContent(context, parameter.content) : {};
+  content[""] = { schema: parameter.schema ? parseSchema(context, parameter.schema) : undefined, examples: examples, encoding: {} };
 
   return {
     name: parameter.name,
     description: parameter.description,
-    required: parameter.required || false,
+    required: parameter.required || location === "path",
     deprecated: parameter.deprecated || false,
     content: content,
-    format: {
-      style: style,
-      explode: explode
-    }
+    format: normalizeFormat(location, parameter)
   };
 }
 
-function parseHeader(name: string, header: HeaderObject): Header {
-  const param = header as ParameterObject;
-  param.name = name;
-  param.in = "header";
-  return parseParameterBase(param);
+function parseHeader(context: ParseContext, name: string, header: HeaderObject): Header {
+  const byName = context.headers.get(header) || {};
+  context.headers.set(header, byName);
+  if (!byName[name]) {
+    const param: ParameterObject = Object.assign({}, header, { name: name, in: "header" as "header" });
+    byName[name] = parseParameterBase(context, param, header);
+  }
+  return byName[name];
 }
 
-function parseHeaders(headers?: HeadersObject): Header[] {
+function parseHeaders(context: ParseContext, headers?: HeadersObject): Header[] {
   if (!headers) return [];
   const headerNames = keys(headers);
-  return headerNames.map(name => parseHeader(name, headers[name] as HeaderObject));
+  return headerNames.map(name => parseHeader(context, name, headers[name] as HeaderObject));
 }
 
-function parseParameter(parameter: ParameterObject): Parameter {
+const parameterLocations = ["query", "header", "path", "cookie"];
+
+const parseParameter = memoize((context: ParseContext, parameter: ParameterObject): Parameter | undefined => {
   const location = parameter.in;
-  const base: ParameterBase = parseParameterBase(parameter);
+  if (parameterLocations.indexOf(location) === -1) {
+    context.diagnostics.report("error", "invalid-parameter-location", `invalid location '${location}' of parameter '${parameter.name}' (expected ${parameterLocations.map(x => `'${x}'`).join(", ")})`, parameter);
+    return undefined;
+  }
+  if (!parameter.schema && !parameter.content) {
+    context.diagnostics.report("error", "missing-content", `expected 'schema' or 'content' on parameter '${parameter.name}'`, parameter);
+    return undefined;
+  }
+  const base: ParameterBase = parseParameterBase(context, parameter, parameter);
 
   switch (location) {
     case "query":
@@ -404,15 +694,31 @@ function parseParameter(parameter: ParameterObject): Parameter {
     case "path": return Object.assign(base, { location: location });
     case "cookie": return Object.assign(base, { location: location });
   }
-}
-function parseParameters(parameters?: ParameterObject[]): Parameter[] | undefined {
-  return parameters ? parameters.map(parseParameter) : undefined;
+});
+function parseParameters(context: ParseContext, parameters?: ParameterObject[]): Parameter[] | undefined {
+  if (!parameters) return undefined;
+  const result: Parameter[] = [];
+  for (const parameter of parameters) {
+    const parsed = parseParameter(context, parameter);
+    if (parsed) result.push(parsed);
+  }
+  return result;
 }
 
-function getParameterKey(parameter: Parameter): string {
+/**
+ * Identifies given parameter within its operation, by name and location.
+ */
+export function getParameterKey(parameter: Parameter): string {
   return JSON.stringify([parameter.name, parameter.location]);
 }
 
+/**
+ * Formats given status code pattern of a response (see `MethodResponse`) the way documents declare it, i.e. "default" rather than "XXX".
+ */
+export function formatStatusCode(key: string): string {
+  return key === "XXX" ? "default" : key;
+}
+
 function checkParameters(parameter: Parameter[]): boolean {
   // check for uniqueness
   const keys = parameter.map(getParameterKey).sort();
@@ -425,17 +731,142 @@ function keys(o: any): string[] {
   return Object.keys(o).filter(x => true); // TODO
 }
 
-function parseSecurityRequirements(securitySchemes: { [securityScheme: string]: SecuritySchemeObject }, security?: SecurityRequirementObject[]): SecurityRequirementsAlternatives | undefined {
+interface ParseContext {
+  diagnostics: Diagnostics;
+  documentUri?: string;
+  // parsed objects, keyed by their (resolved) source object; shared and circular references thus map to the same instance
+  schemas: WeakMap<ISchemaObject, Schema>;
+  headers: WeakMap<HeaderObject, { [name: string]: Header }>;
+  parsed: Map<Function, WeakMap<object, any>>;
+  // source objects of parsed objects
+  sources: WeakMap<object, any>;
+  allSchemas: Schema[];
+}
+
+/**
+ * Wraps given parse function so that each (resolved) source object is parsed only once per context.
+ * Objects shared via `$ref` thus yield the same model instance wherever they are used.
+ */
+function memoize<TSource extends object, TResult extends object | undefined>(parse: (context: ParseContext, source: TSource) => TResult): (context: ParseContext, source: TSource) => TResult {
+  return (context, source) => {
+    const cache: WeakMap<TSource, TResult> = context.parsed.get(parse) || new WeakMap<TSource, TResult>();
+    context.parsed.set(parse, cache);
+    if (cache.has(source)) return cache.get(source) as TResult;
+    const result = parse(context, source);
+    cache.set(source, result);
+    // invalid objects parse to `undefined` (having reported why), see e.g. `parseParameter`
+    const parsed: object | undefined = result;
+    if (parsed !== undefined) context.sources.set(parsed, source);
+    return result;
+  };
+}
+
+/**
+ * Parses each entry of given map, skipping invalid ones (those parsing to `undefined`).
+ */
+function parseMap<TSource, TResult>(map: { [name: string]: TSource } | undefined, parse: (source: TSource, name: string) => TResult | undefined): { [name: string]: TResult } {
+  const result: { [name: string]: TResult } = {};
+  for (const name of keys(map || {})) {
+    const parsed = parse((map as { [name: string]: TSource })[name], name);
+    if (parsed !== undefined) result[name] = parsed;
+  }
+  return result;
+}
+
+// see https://www.iana.org/assignments/http-authschemes
+const httpAuthSchemes = ["basic", "bearer", "digest", "hoba", "mutual", "negotiate", "oauth", "scram-sha-1", "scram-sha-256", "vapid"];
+
+// URLs each OAuth2 flow requires
+const oauthFlowUrls: { [flow: string]: ("authorizationUrl" | "tokenUrl")[] } = {
+  implicit: ["authorizationUrl"],
+  password: ["tokenUrl"],
+  clientCredentials: ["tokenUrl"],
+  authorizationCode: ["authorizationUrl", "tokenUrl"]
+};
+
+/**
+ * Returns undefined for schemes of unknown type.
+ */
+function parseSecurityScheme(context: ParseContext, name: string, scheme: SecuritySchemeObject): SecurityScheme | undefined {
+  const invalid = (message: string) => context.diagnostics.report("error", "invalid-security-scheme", `security scheme '${name}' ${message}`, scheme);
+  switch (scheme.type) {
+    case "apiKey":
+      if (!scheme.name) invalid("has no parameter name");
+      if (["query", "header", "cookie"].indexOf(scheme.in) === -1) invalid(`has invalid location '${scheme.in}' (expected 'query', 'header' or 'cookie')`);
+      return { type: "apiKey", name: name, description: scheme.description, parameterName: scheme.name, in: scheme.in };
+    case "http":
+      const httpScheme = (scheme.scheme || "").toLowerCase();
+      if (!httpScheme) {
+        invalid("has no HTTP authentication scheme");
+      } else if (httpAuthSchemes.indexOf(httpScheme) === -1) {
+        context.diagnostics.report("warning", "invalid-security-scheme", `security scheme '${name}' has unknown HTTP authentication scheme '${scheme.scheme}'`, scheme);
+      }
+      return { type: "http", name: name, description: scheme.description, scheme: httpScheme, bearerFormat: scheme.bearerFormat };
+    case "oauth2":
+      const flows: OAuthFlow[] = [];
+      const flowsObject = scheme.flows || {};
+      for (const flowType of keys(flowsObject)) {
+        const flow = flowsObject[flowType as keyof OAuthFlowsObject];
+        if (!(flowType in oauthFlowUrls)) {
+          if (!flowType.startsWith("x-")) invalid(`has unknown OAuth2 flow '${flowType}'`);
+          continue;
+        }
+        if (!flow) continue;
+        for (const url of oauthFlowUrls[flowType]) {
+          if (!flow[url]) invalid(`has no '${url}' for OAuth2 flow '${flowType}'`);
+        }
+        flows.push({
+          type: flowType as OAuthFlow["type"],
+          authorizationUrl: flow.authorizationUrl,
+          tokenUrl: flow.tokenUrl,
+          refreshUrl: flow.refreshUrl,
+          scopes: flow.scopes || {}
+        });
+      }
+      if (flows.length === 0) invalid("has no OAuth2 flows");
+      return { type: "oauth2", name: name, description: scheme.description, flows: flows };
+    case "openIdConnect":
+      if (!scheme.openIdConnectUrl) invalid("has no OpenID Connect URL");
+      return { type: "openIdConnect", name: name, description: scheme.description, openIdConnectUrl: scheme.openIdConnectUrl };
+  }
+  invalid(`has unknown type '${(scheme as any).type}'`);
+  return undefined;
+}
+
+function parseSecuritySchemes(context: ParseContext, securitySchemes?: { [name: string]: SecuritySchemeObject }): { [name: string]: SecurityScheme } {
+  const result: { [name: string]: SecurityScheme } = {};
+  for (const name of keys(securitySchemes || {})) {
+    const scheme = parseSecurityScheme(context, name, (securitySchemes as { [name: string]: SecuritySchemeObject })[name]);
+    if (scheme) result[name] = scheme;
+  }
+  return result;
+}
+
+function parseSecurityRequirements(context: OperationContext, security?: SecurityRequirementObject[]): SecurityRequirementsAlternatives | undefined {
   const securityAlternatives: SecurityRequirementsAlternatives = [];
   if (!security) return undefined;
   for (const sec of security) {
     const security: SecurityRequirements = [];
     for (const name of keys(sec)) {
-      const securityScheme = securitySchemes[name];
-      if (!securityScheme) throw new Error(`security scheme '${name}' not found`);
+      const securityScheme = context.securitySchemes[name];
+      if (!securityScheme) {
+        // schemes of unknown type are reported where they are declared
+        if (!(name in context.securitySchemeObjects)) {
+          context.diagnostics.report("error", "unknown-security-scheme", `security scheme '${name}' not found`, sec);
+        }
+        continue;
+      }
+      const scopes = sec[name] || [];
+      if (securityScheme.type === "oauth2") {
+        for (const scope of scopes) {
+          if (!securityScheme.flows.some(flow => scope in flow.scopes)) {
+            context.diagnostics.report("error", "unknown-scope", `scope '${scope}' is not defined by security scheme '${name}'`, sec);
+          }
+        }
+      }
       security.push({
         scheme: securityScheme,
-        scopes: sec[name]
+        scopes: scopes
       });
     }
     securityAlternatives.push(security);
@@ -452,24 +883,27 @@ function getDefaultMediaType(schema: Schema): string {
     throwEx(`unexpeced type '${schema.type}'`));
 }
 
-function parseContent(content: ContentObject): Content {
+function parseContent(context: ParseContext, content: ContentObject): Content {
   const result: Content = {};
   for (const mediaType of keys(content)) {
     const contentObj = content[mediaType];
-    const schema = parseSchema(contentObj.schema || {});
+    const schema = parseSchema(context, contentObj.schema || {});
 
     // parse encoding
     const encodings: { [property: string]: Encoding } = {};
     if (contentObj.encoding && schema.type === "object") {
-      if (mediaType.startsWith("multipart/") || mediaType === "x-www-form-urlencoded") {
+      if (mediaType.startsWith("multipart/") || mediaType === "application/x-www-form-urlencoded") {
         const props = schema.properties;
         for (const encodedProp of keys(contentObj.encoding)) {
-          if (!(encodedProp in props)) throw new Error(`property '${encodedProp}' does not exist on type`);
+          if (!(encodedProp in props)) {
+            context.diagnostics.report("error", "unknown-encoding-property", `property '${encodedProp}' does not exist on type`, contentObj.encoding);
+            continue;
+          }
           const prop = props[encodedProp];
           const encoding = contentObj.encoding[encodedProp];
           encodings[encodedProp] = {
             contentType: encoding.contentType || getDefaultMediaType(prop),
-            headers: parseHeaders(encoding.headers),
+            headers: parseHeaders(context, encoding.headers),
             format: normalizeFormat("query", encoding),
             allowReserved: encoding.allowReserved || false
           };
@@ -486,133 +920,460 @@ function parseContent(content: ContentObject): Content {
   return result;
 }
 
-export function run(openapiDefinition: OpenAPIObject): Model {
-  if (openapiDefinition.openapi !== "3.0.0") throw new Error("this modeler is for OpenAPI 3.0.0, found " + openapiDefinition.openapi);
+const parseRequestBody = memoize((context: ParseContext, requestBody: RequestBodyObject): ParameterBody | undefined => {
+  if (!requestBody.content) {
+    context.diagnostics.report("error", "missing-content", "expected 'content' on request body", requestBody);
+    return undefined;
+  }
+  return {
+    description: requestBody.description,
+    content: parseContent(context, requestBody.content),
+    required: requestBody.required || false
+  };
+});
 
-  // security schemes
-  const securitySchemes = openapiDefinition.components.securitySchemes || {};
+function parseRuntimeExpression(expression: string): RuntimeExpression | undefined {
+  switch (expression) {
+    case "$url": return { type: "url" };
+    case "$method": return { type: "method" };
+    case "$statusCode": return { type: "statusCode" };
+  }
+  const match = expression.match(/^\$(request|response)\.(header\.|query\.|path\.|body(?:#|$))(.*)$/);
+  if (!match) return undefined;
+  const type = match[1] as "request" | "response";
+  const source = match[2].replace(/[.#]$/, "") as "header" | "query" | "path" | "body";
+  if (source === "body") {
+    return { type: type, source: source, pointer: match[3] };
+  }
+  if (match[3] === "") return undefined;
+  return { type: type, source: source, name: match[3] };
+}
 
-  const result: Model = {
-    operations: [],
-    tags: openapiDefinition.tags || [],
-    info: openapiDefinition.info
+/**
+ * @param node The node to report problems at.
+ */
+function parseUrlTemplate(context: ParseContext, template: string, node: any): UrlTemplate {
+  const result: UrlTemplate = [];
+  const parts1 = template.split("{");
+  result.push({ type: "const", value: parts1.shift() || "" });
+  for (const part of parts1) {
+    const parts2 = part.split("}");
+    const expression = parseRuntimeExpression(parts2.shift() || "");
+    if (parts2.length !== 1 || !expression) {
+      context.diagnostics.report("error", "invalid-runtime-expression", `invalid URL template '${template}'`, node);
+      // fall back to treating the template literally
+      return [{ type: "const", value: template }];
+    }
+    result.push({ type: "expression", expression: expression });
+    result.push({ type: "const", value: parts2.shift() || "" });
+  }
+  return result.filter(x => x.type !== "const" || x.value !== "");
+}
+
+/**
+ * @param node The node to report problems at.
+ */
+function parseLinkValue(context: ParseContext, value: any, node: any): LinkValue {
+  if (typeof value === "string" && value.startsWith("$")) {
+    const expression = parseRuntimeExpression(value);
+    if (expression) return { type: "expression", expression: expression };
+    context.diagnostics.report("error", "invalid-runtime-expression", `invalid runtime expression '${value}'`, node);
+  }
+  return { type: "const", value: value };
+}
+
+const parseLink = memoize((context: ParseContext, link: LinkObject): Link => {
+  if (link.operationId === undefined && link.operationRef === undefined) {
+    context.diagnostics.report("error", "invalid-link", "link must specify either 'operationId' or 'operationRef'", link);
+  }
+  if (link.operationId !== undefined && link.operationRef !== undefined) {
+    context.diagnostics.report("error", "invalid-link", "link must not specify both 'operationId' and 'operationRef'", link);
+  }
+
+  const parameters = link.parameters || {};
+  const result: Link = {
+    operationId: link.operationId,
+    operationRef: link.operationRef,
+    parameters: {},
+    requestBody: link.requestBody === undefined ? undefined : parseLinkValue(context, link.requestBody, link),
+    description: link.description,
+    server: link.server ? parseServer(context, link.server) : undefined
   };
-  const servers = parseServers(openapiDefinition.servers) || [];
-  if (servers.length === 0) servers.push({ urlPrefix: parsePath("/"), variables: {} });
+  for (const name of keys(parameters)) {
+    result.parameters[name] = parseLinkValue(context, parameters[name], parameters);
+  }
+  return result;
+});
 
-  // security
-  const security: SecurityRequirementsAlternatives = parseSecurityRequirements(securitySchemes, openapiDefinition.security) || [];
+const parseResponse = memoize((context: ParseContext, responseObject: ResponseObject): Response => {
+  return {
+    description: responseObject.description,
+    headers: parseHeaders(context, responseObject.headers),
+    content: responseObject.content ? parseContent(context, responseObject.content) : {},
+    links: parseMap(responseObject.links, link => parseLink(context, link as LinkObject))
+  };
+});
+
+/**
+ * Points links of the model to their target operations.
+ * @param operations Parsed operations, keyed by their source object.
+ */
+function resolveLinks(context: ParseContext, openapiDefinition: OpenAPIObject, model: Model, operations: Map<OperationObject, Method>): void {
+  const allOperations = Array.from(operations.values());
+  const links: Link[] = keys(model.components.links).map(name => model.components.links[name]);
+  for (const operation of allOperations) {
+    for (const response of operation.responses) {
+      links.push(...keys(response.response.links).map(name => response.response.links[name]));
+    }
+  }
 
-  // externalDocs
-  // TODO: openapiDefinition.externalDocs
+  for (const link of links) {
+    if (link.operationId !== undefined) {
+      const operationId = link.operationId;
+      link.operation = allOperations.filter(x => x.operationId === operationId)[0];
+      if (!link.operation) {
+        context.diagnostics.report("error", "unresolved-link-target", `link target operation '${operationId}' not found`, context.sources.get(link));
+      }
+    }
+    // only local references can be resolved, external operations are not part of the model
+    if (link.operationRef !== undefined && link.operationRef.startsWith("#/")) {
+      let target: any = undefined;
+      try {
+        target = getByPointer(openapiDefinition, parsePointerFragment(link.operationRef.slice(1)));
+      } catch (e) {
+        // reported below
+      }
+      link.operation = operations.get(target);
+      if (!link.operation) {
+        context.diagnostics.report("error", "unresolved-link-target", `link target operation '${link.operationRef}' not found`, context.sources.get(link));
+      }
+    }
+  }
+}
 
-  // types (maybe a list of declared stuff!?)
-  // TODO: openapiDefinition.components
+function describeSchema(schema: Schema): string {
+  return schema.name !== undefined ? `schema '${schema.name}'` : "inline schema";
+}
 
-  // operations
-  for (const rawPath of keys(openapiDefinition.paths)) {
-    const path: Path = parsePath(rawPath);
-    const pathObject = openapiDefinition.paths[rawPath];
-    const pathSummary = pathObject.summary;
-    const pathDescription = pathObject.description;
-    const pathServers = parseServers(pathObject.servers) || servers;
-    const pathParameters = parseParameters(pathObject.parameters as ParameterObject[]) || [];
-    if (!checkParameters(pathParameters)) throw new Error("invalid path parameters");
-
-    for (const httpMethod of httpMethods) {
-      const operationObject = pathObject[httpMethod];
-      if (operationObject) {
-        const operationServers = parseServers(operationObject.servers) || pathServers;
-        const operationParameters = parseParameters(operationObject.parameters as ParameterObject[]) || [];
-        if (!checkParameters(pathParameters)) throw new Error("invalid operation parameters");
-
-        // merge parameters
-        const parameters = pathParameters.slice();
-        for (const param of operationParameters) {
-          // override?
-          let found = false;
-          for (let i = 0; i < parameters.length; ++i) {
-            const paramTarget = parameters[i];
-            if (getParameterKey(param) === getParameterKey(paramTarget)) {
-              found = true;
-              parameters[i] = param;
-            }
-          }
+/**
+ * Merges the properties of `allOf` members into object schemas, records inheritance
+ * and points discriminator mappings (explicit or implicit by schema name) to their schemas.
+ * @param namedSchemas Schemas discriminator mappings may refer to by name.
+ */
+function normalizeComposition(context: ParseContext, namedSchemas: { [name: string]: Schema }): void {
+  const objectSchemas = context.allSchemas.filter(x => x.type === "object") as SchemaObject[];
+
+  // effective properties
+  const merged = new Set<SchemaObject>();
+  const merging = new Set<SchemaObject>();
+  const merge = (schema: SchemaObject) => {
+    if (merged.has(schema) || !schema.allOf) return;
+    if (merging.has(schema)) {
+      context.diagnostics.report("error", "invalid-composition", `${describeSchema(schema)} (indirectly) includes itself via 'allOf'`, context.sources.get(schema));
+      return;
+    }
+    merging.add(schema);
+
+    const properties: { [name: string]: Schema } = {};
+    const required: string[] = [];
+    const origins: { [name: string]: Schema } = {};
+    const add = (origin: Schema, name: string, property: Schema) => {
+      const existing = properties[name];
+      if (existing && existing !== property && existing.type !== property.type) {
+        context.diagnostics.report("warning", "conflicting-property",
+          `property '${name}' of ${describeSchema(schema)} has conflicting types '${existing.type}' (from ${describeSchema(origins[name])}) and '${property.type}' (from ${describeSchema(origin)})`,
+          context.sources.get(schema));
+      }
+      properties[name] = property;
+      origins[name] = origin;
+    };
+    for (const member of schema.allOf) {
+      if (member.type !== "object") {
+        context.diagnostics.report("error", "invalid-composition", `${describeSchema(schema)} is an object but includes a schema of type '${member.type}' via 'allOf'`, context.sources.get(schema));
+        continue;
+      }
+      merge(member);
+      for (const name of keys(member.effectiveProperties)) add(member, name, member.effectiveProperties[name]);
+      required.push(...member.effectiveRequired);
+      if (member.name !== undefined && schema.baseSchemas.indexOf(member) === -1) {
+        schema.baseSchemas.push(member);
+        member.derivedSchemas.push(schema);
+      }
+    }
+    for (const name of keys(schema.properties)) add(schema, name, schema.properties[name]);
+    required.push(...schema.required);
 
-          // append
-          if (!found) {
-            parameters.push(param);
-          }
+    schema.effectiveProperties = properties;
+    schema.effectiveRequired = required.filter((x, i) => required.indexOf(x) === i);
+    merging.delete(schema);
+    merged.add(schema);
+  };
+  objectSchemas.forEach(merge);
+
+  // discriminators
+  for (const schema of objectSchemas) {
+    const discriminator = schema.discriminator;
+    if (!discriminator) continue;
+
+    // implicit: derived schemas as well as alternatives, by name
+    const candidates: Schema[] = (schema.oneOf || []).concat(schema.anyOf || []);
+    const addDerived = (base: SchemaObject) => {
+      for (const derived of base.derivedSchemas) {
+        if (candidates.indexOf(derived) === -1) {
+          candidates.push(derived);
+          if (derived.type === "object") addDerived(derived);
+        }
+      }
+    };
+    addDerived(schema);
+    for (const candidate of candidates) {
+      if (candidate.name !== undefined) discriminator.mapping[candidate.name] = candidate;
+    }
+
+    // explicit
+    const source: ISchemaObject = context.sources.get(schema);
+    const mapping = (source.discriminator && source.discriminator.mapping) || {};
+    for (const value of keys(mapping)) {
+      const target = mapping[value];
+      // either a schema name or a reference
+      let name = target;
+      if (target.indexOf("#") !== -1) {
+        try {
+          name = parsePointerFragment(target.slice(target.indexOf("#") + 1)).pop() || "";
+        } catch (e) {
+          name = "";
         }
+      }
+      const mapped = namedSchemas[name] || candidates.filter(x => x.name === name)[0];
+      if (mapped) {
+        discriminator.mapping[value] = mapped;
+      } else {
+        context.diagnostics.report("error", "unresolved-discriminator-mapping", `discriminator mapping '${value}' refers to unknown schema '${target}'`, source.discriminator);
+      }
+    }
+  }
+}
+
+function parseComponents(context: OperationContext, components: ComponentsObject): Components {
+  return {
+    schemas: parseMap(components.schemas, (schema, name) => {
+      const result = parseSchema(context, schema);
+      // not referenced anywhere, so not tagged by the resolver
+      if (result.name === undefined) result.name = name;
+      return result;
+    }),
+    parameters: parseMap(components.parameters, parameter => parseParameter(context, parameter)),
+    responses: parseMap(components.responses, response => parseResponse(context, response)),
+    requestBodies: parseMap(components.requestBodies, requestBody => parseRequestBody(context, requestBody)),
+    headers: parseMap(components.headers, (header, name) => parseHeader(context, name, header)),
+    examples: parseMap(components.examples, example => example),
+    links: parseMap(components.links, link => parseLink(context, link)),
+    callbacks: parseMap(components.callbacks, callback => parseCallback(context, callback)),
+    securitySchemes: context.securitySchemes
+  };
+}
+
+interface OperationContext extends ParseContext {
+  securitySchemes: { [name: string]: SecurityScheme };
+  securitySchemeObjects: { [name: string]: SecuritySchemeObject };
+  // defaults for operations that don't override them
+  servers: Server[];
+  security: SecurityRequirementsAlternatives;
+  // parsed operations and callbacks, keyed by their source object
+  operations: Map<OperationObject, Method>;
+  callbacks: Map<CallbackObject, Callback>;
+}
+
+function parsePathItem(context: OperationContext, path: Path, pathObject: PathItemObject): Method[] {
+  const result: Method[] = [];
+  const pathSummary = pathObject.summary;
+  const pathDescription = pathObject.description;
+  const pathServers = parseServers(context, pathObject.servers) || context.servers;
+  const pathParameters = parseParameters(context, pathObject.parameters as ParameterObject[]) || [];
+  if (!checkParameters(pathParameters)) {
+    context.diagnostics.report("error", "duplicate-parameter", "invalid path parameters (not unique)", pathObject.parameters);
+  }
 
-        // validate path parameters against urlSuffix
-        const pathParams = parameters.filter(x => x.location === "path").map(x => x.name).sort();
-        const pathParamsExpected = path.map(x => x.type === "param" ? x.name : null).filter(x => x !== null).sort();
-        if (pathParams.length !== pathParamsExpected.length || !pathParams.every((x, i) => x === pathParamsExpected[i])) {
-          throw new Error("path parameters mismatch");
+  for (const httpMethod of httpMethods) {
+    const operationObject = pathObject[httpMethod];
+    if (operationObject) {
+      const operationServers = parseServers(context, operationObject.servers) || pathServers;
+      const operationParameters = parseParameters(context, operationObject.parameters as ParameterObject[]) || [];
+      if (!checkParameters(operationParameters)) {
+        context.diagnostics.report("error", "duplicate-parameter", "invalid operation parameters (not unique)", operationObject.parameters);
+      }
+
+      // merge parameters
+      const parameters = pathParameters.slice();
+      for (const param of operationParameters) {
+        // override?
+        let found = false;
+        for (let i = 0; i < parameters.length; ++i) {
+          const paramTarget = parameters[i];
+          if (getParameterKey(param) === getParameterKey(paramTarget)) {
+            found = true;
+            parameters[i] = param;
+          }
         }
 
-        // request body
-        let requestBody: ParameterBody | undefined = undefined;
-        if (operationObject.requestBody) {
-          requestBody = {
-            description: (operationObject.requestBody as RequestBodyObject).description,
-            content: parseContent((operationObject.requestBody as RequestBodyObject).content),
-            required: (operationObject.requestBody as RequestBodyObject).required || false
-          };
+        // append
+        if (!found) {
+          parameters.push(param);
         }
-        // TODO: operationObject.requestBody?
-        // TODO: operationObject.callbacks?
-
-        // security
-        const operationSecurity = parseSecurityRequirements(securitySchemes, operationObject.security) || security;
-
-        // responses
-        const responses: Response[] = [];
-        const responseKeys = keys(operationObject.responses);
-        for (let responseKey of responseKeys) {
-          const responseObject = operationObject.responses[responseKey] as ResponseObject;
-
-          if (responseKey === "default") responseKey = "XXX";
-          if (!responseKey.match(/^[0-9X]{3}$/)) throw new Error(`invalid HTTP status code pattern '${responseKey}'`);
-
-          // TODO:
-          // responseObject.content
-
-          // links
-          const links = responseObject.links || {};
-          const linkNames = keys(links);
-          // TODO
-
-          responses.push({
-            key: responseKey,
-            description: responseObject.description,
-            headers: parseHeaders(responseObject.headers)
-          });
+      }
+
+      // validate path parameters against urlSuffix
+      const pathParams = parameters.filter(x => x.location === "path").map(x => x.name).sort();
+      const pathParamsExpected = path.map(x => x.type === "param" ? x.name : null).filter(x => x !== null).sort();
+      if (pathParams.length !== pathParamsExpected.length || !pathParams.every((x, i) => x === pathParamsExpected[i])) {
+        context.diagnostics.report("error", "path-parameter-mismatch", `path parameters mismatch (declared: ${pathParams.join(", ")}; expected: ${pathParamsExpected.join(", ")})`, operationObject);
+      }
+
+      // request body
+      let requestBody: ParameterBody | undefined = undefined;
+      if (operationObject.requestBody) {
+        requestBody = parseRequestBody(context, operationObject.requestBody as RequestBodyObject);
+      }
+
+      // callbacks
+      const callbacks = parseMap(operationObject.callbacks, callback => parseCallback(context, callback as CallbackObject));
+
+      // security
+      const operationSecurity = parseSecurityRequirements(context, operationObject.security) || context.security;
+
+      // responses
+      const responses: MethodResponse[] = [];
+      if (!operationObject.responses) {
+        context.diagnostics.report("error", "missing-responses", "expected 'responses' on operation", operationObject);
+      }
+      const responseObjects = operationObject.responses || {};
+      for (let responseKey of keys(responseObjects)) {
+        const responseObject = responseObjects[responseKey] as ResponseObject;
+
+        if (responseKey === "default") responseKey = "XXX";
+        if (!responseKey.match(/^[0-9X]{3}$/)) {
+          context.diagnostics.report("error", "invalid-status-code", `invalid HTTP status code pattern '${responseKey}'`, responseObjects);
+          continue;
         }
-        // sort responses descending by significance
-        responses.sort((a, b) => a.key.split("").filter(c => c === "X").length - b.key.split("").filter(c => c === "X").length);
-
-        result.operations.push({
-          urlSuffix: path,
-
-          tags: operationObject.tags || [],
-          summary: operationObject.summary || pathSummary,
-          description: operationObject.description || pathDescription,
-          externalDocs: operationObject.externalDocs,
-          operationId: operationObject.operationId,
-          parameters: parameters,
-          parameterBody: requestBody,
-          responses: responses,
-
-          deprecated: operationObject.deprecated || false,
-          security: operationSecurity,
-          servers: operationServers
+
+        responses.push({
+          key: responseKey,
+          response: parseResponse(context, responseObject)
         });
       }
+      // sort responses descending by significance
+      responses.sort((a, b) => a.key.split("").filter(c => c === "X").length - b.key.split("").filter(c => c === "X").length);
+
+      const operation: Method = {
+        httpMethod: httpMethod,
+        urlSuffix: path,
+
+        tags: operationObject.tags || [],
+        summary: operationObject.summary || pathSummary,
+        description: operationObject.description || pathDescription,
+        externalDocs: operationObject.externalDocs,
+        operationId: operationObject.operationId,
+        parameters: parameters,
+        parameterBody: requestBody,
+        responses: responses,
+        callbacks: callbacks,
+
+        deprecated: operationObject.deprecated || false,
+        security: operationSecurity,
+        servers: operationServers
+      };
+      context.operations.set(operationObject, operation);
+      result.push(operation);
     }
   }
+  return result;
+}
 
-
+function parseCallback(context: OperationContext, callbackObject: CallbackObject): Callback {
+  const cached = context.callbacks.get(callbackObject);
+  if (cached) return cached;
+
+  // callbacks are requests issued by the API provider, so none of the API's servers or security apply
+  const callbackContext: OperationContext = Object.assign({}, context, { servers: [], security: [] });
+  const result: Callback = [];
+  context.callbacks.set(callbackObject, result);
+  for (const expression of keys(callbackObject)) {
+    result.push({
+      expression: expression,
+      url: parseUrlTemplate(context, expression, callbackObject),
+      operations: parsePathItem(callbackContext, [], callbackObject[expression])
+    });
+  }
   return result;
+}
+
+export interface ModelerResult {
+  model: Model;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Builds the model of given (resolved) document.
+ * Recoverable problems don't abort modeling, but are reported as diagnostics alongside the model.
+ * @param documentUri URI the document was loaded from, used to locate diagnostics.
+ */
+export function run(definition: OpenAPIObject | SwaggerObject, documentUri?: string): ModelerResult {
+  // located in the document as written, converted nodes included
+  const diagnostics = createDiagnostics(definition, documentUri);
+  const openapiDefinition = adaptDocument(definition, diagnostics);
+  const components = openapiDefinition.components || {};
+
+  const context: OperationContext = {
+    diagnostics: diagnostics,
+    documentUri: documentUri,
+    schemas: new WeakMap<ISchemaObject, Schema>(),
+    headers: new WeakMap<HeaderObject, { [name: string]: Header }>(),
+    parsed: new Map<Function, WeakMap<object, any>>(),
+    sources: new WeakMap<object, any>(),
+    allSchemas: [],
+    securitySchemes: {},
+    securitySchemeObjects: components.securitySchemes || {},
+    servers: [],
+    security: [],
+    operations: new Map<OperationObject, Method>(),
+    callbacks: new Map<CallbackObject, Callback>()
+  };
+
+  context.servers = parseServers(context, openapiDefinition.servers) || [];
+  if (context.servers.length === 0) context.servers.push(parseServer(context, { url: "/" }) as Server);
+
+  // security
+  context.securitySchemes = parseSecuritySchemes(context, components.securitySchemes);
+  context.security = parseSecurityRequirements(context, openapiDefinition.security) || [];
+
+  // types (parsed upfront, so operations share their instances)
+  const result: Model = {
+    operations: [],
+    webhooks: {},
+    tags: openapiDefinition.tags || [],
+    info: openapiDefinition.info,
+    components: parseComponents(context, components)
+  };
+
+  // externalDocs
+  // TODO: openapiDefinition.externalDocs
+
+  // operations
+  const paths = openapiDefinition.paths || {};
+  for (const rawPath of keys(paths)) {
+    const path: Path = parsePath(context, rawPath, paths[rawPath]);
+    result.operations.push(...parsePathItem(context, path, paths[rawPath]));
+  }
+
+  // webhooks (like callbacks, these are requests issued by the API provider)
+  const webhookContext: OperationContext = Object.assign({}, context, { servers: [], security: [] });
+  result.webhooks = parseMap(openapiDefinition.webhooks, webhook => parsePathItem(webhookContext, [], webhook));
+
+  resolveLinks(context, openapiDefinition, result, context.operations);
+  normalizeComposition(context, result.components.schemas);
+
+  return {
+    model: result,
+    diagnostics: context.diagnostics.list
+  };
 }
\ No newline at end of file
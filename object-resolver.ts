@@ -1,17 +1,140 @@
-import { nodes, stringify } from "jsonpath";
+import { resolve as resolveUri } from "url";
+import { ReadUri } from "./index";
+import { loadYaml } from "./diagnostics";
+import { formatPointer, getByPointer, parsePointerFragment, setByPointer } from "./json-pointer";
 
-export function resolve<T>($: T): void {
-  for (const hit of nodes($, "$..*[?(@.$ref)]")) {
-    const sourceRef: string = hit.value.$ref;
-    const targetPath = stringify(hit.path);
+/**
+ * Provenance of a resolved node: the document it was loaded from and its JSON pointer within that document.
+ */
+export interface SourcePath {
+  documentUri: string;
+  pointer: string;
+}
 
-    const sourceRefParts = sourceRef.split("/");
-    if (!(sourceRefParts.shift() || "").startsWith("#")) {
-      throw new Error("invalid syntax of local reference");
+interface ResolverContext {
+  // loaded documents, keyed by absolute URI
+  documents: { [documentUri: string]: Promise<any> };
+  // documents whose references are (being) resolved
+  resolving: { [documentUri: string]: boolean };
+}
+
+function splitReference(ref: string): { uri: string, fragment: string } {
+  const hashIndex = ref.indexOf("#");
+  return hashIndex === -1
+    ? { uri: ref, fragment: "" }
+    : { uri: ref.slice(0, hashIndex), fragment: ref.slice(hashIndex + 1) };
+}
+
+async function loadDocument(context: ResolverContext, documentUri: string): Promise<any> {
+  if (!(documentUri in context.documents)) {
+    context.documents[documentUri] = ReadUri(documentUri).then(raw => loadYaml(raw));
+  }
+  const document = await context.documents[documentUri];
+  if (!context.resolving[documentUri]) {
+    await resolveDocument(context, document, documentUri);
+  }
+  return document;
+}
+
+/**
+ * Locates the reference objects within given document (excluding the document itself).
+ */
+function findReferences(document: any): string[][] {
+  const result: string[][] = [];
+  const visited = new Set<any>();
+  const visit = (node: any, parts: string[]) => {
+    if (typeof node !== "object" || node === null || visited.has(node)) return;
+    visited.add(node);
+    if (parts.length !== 0 && typeof node.$ref === "string") {
+      result.push(parts);
+      return;
     }
-    const sourceRefPartsDecoded = sourceRefParts.map(part => part.replace(/~1/g, "/").replace(/~0/g, "~"));
-    const sourcePath = "$" + sourceRefPartsDecoded.map(part => `[${JSON.stringify(part)}]`).join("");
-    eval(`${sourcePath}.$path = ${JSON.stringify(sourceRefPartsDecoded)}`);
-    eval(`${targetPath} = ${sourcePath}`);
+    for (const key of Object.keys(node)) {
+      visit(node[key], parts.concat([key]));
+    }
+  };
+  visit(document, []);
+  return result;
+}
+
+/**
+ * Looks up the node given reference points to, following chains of references.
+ * @param chain The references followed so far, to detect cycles.
+ */
+async function resolveReference(context: ResolverContext, document: any, documentUri: string, ref: string, chain: string[]): Promise<{ value: any, path: SourcePath }> {
+  // locate target document (relative to the referencing one)
+  const refSplit = splitReference(ref);
+  let targetDocumentUri = documentUri;
+  let targetDocument = document;
+  if (refSplit.uri !== "") {
+    targetDocumentUri = resolveUri(documentUri, refSplit.uri);
+    if (!targetDocumentUri.match(/^[a-z][a-z0-9+.-]*:/i)) {
+      throw new Error(`cannot resolve reference '${ref}' without an absolute document URI`);
+    }
+    targetDocument = await loadDocument(context, targetDocumentUri);
+  }
+
+  // locate target node
+  let value: any;
+  let pointer: string;
+  try {
+    const parts = parsePointerFragment(refSplit.fragment);
+    value = getByPointer(targetDocument, parts);
+    pointer = formatPointer(parts);
+  } catch (e) {
+    throw new Error(`cannot resolve reference '${ref}' at '${chain[chain.length - 1]}' (${e.message})`);
   }
+
+  // follow reference chains
+  const location = `${targetDocumentUri}#${pointer}`;
+  if (chain.indexOf(location) !== -1) {
+    throw new Error(`circular reference chain ${chain.concat([location]).join(" -> ")}`);
+  }
+  if (typeof value === "object" && value !== null && typeof value.$ref === "string") {
+    return resolveReference(context, targetDocument, targetDocumentUri, value.$ref, chain.concat([location]));
+  }
+  return { value: value, path: { documentUri: targetDocumentUri, pointer: pointer } };
+}
+
+async function resolveDocument(context: ResolverContext, $: any, documentUri: string): Promise<void> {
+  context.resolving[documentUri] = true;
+  for (const parts of findReferences($)) {
+    const ref: string = getByPointer($, parts).$ref;
+    const target = await resolveReference(context, $, documentUri, ref, [`${documentUri}#${formatPointer(parts)}`]);
+    if (typeof target.value === "object" && target.value !== null) {
+      target.value.$path = target.path;
+    }
+    setByPointer($, parts, target.value);
+  }
+}
+
+/**
+ * Replaces all references within given document by the referenced objects.
+ * Relative and URI references are loaded and resolved recursively, relative to the document they appear in.
+ * @param $ The document to resolve in-place.
+ * @param documentUri Absolute URI the document was loaded from, used as base for relative references.
+ */
+export async function resolve<T>($: T, documentUri: string = ""): Promise<void> {
+  const context: ResolverContext = { documents: {}, resolving: {} };
+  context.documents[documentUri] = Promise.resolve($);
+  await resolveDocument(context, $, documentUri);
+}
+
+/**
+ * Copies given (resolved) document without the `$path` tags of its nodes, keeping shared and circular references.
+ */
+export function stripPaths<T>(document: T): T {
+  const copies = new Map<any, any>();
+  const copy = (node: any): any => {
+    if (typeof node !== "object" || node === null) return node;
+    let result = copies.get(node);
+    if (result !== undefined) return result;
+    result = Array.isArray(node) ? [] : {};
+    copies.set(node, result);
+    for (const key of Object.keys(node)) {
+      if (key !== "$path") result[key] = copy(node[key]);
+    }
+    return result;
+  };
+  return copy(document);
 }
\ No newline at end of file
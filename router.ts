@@ -0,0 +1,211 @@
+import { parse as parseUrl } from "url";
+import { formatPath, Method, Model, Path, Server } from "./modeler";
+import { createDiagnostics, Diagnostic } from "./diagnostics";
+
+export type RouteResult =
+  { type: "match", method: Method, server: Server, pathValues: { [name: string]: string }, serverValues: { [name: string]: string } } |
+  { type: "method-not-allowed", allowedMethods: string[] } |
+  { type: "not-found" };
+
+export interface Router {
+  // problems found while building the router, like ambiguous path templates
+  diagnostics: Diagnostic[];
+  /**
+   * Finds the operation given request is meant for, preferring concrete path segments over templated ones.
+   * Path and server values are returned raw, i.e. still serialized (see `deserializeParameter`).
+   * @param url Absolute, or just path and query. Servers are matched by their path only.
+   */
+  match(httpMethod: string, url: string): RouteResult;
+}
+
+interface Capture {
+  name: string;
+  // whether this is a server variable rather than a path parameter
+  server: boolean;
+}
+
+interface Route {
+  method: Method;
+  server: Server;
+  // what the values captured by templated segments are, in order
+  captures: Capture[];
+  // for diagnostics
+  template: string;
+}
+
+interface TemplateEdge {
+  pattern: RegExp;
+  // number of characters matched literally
+  specificity: number;
+  node: RouterNode;
+}
+
+interface RouterNode {
+  constants: Map<string, RouterNode>;
+  // most specific first
+  templates: TemplateEdge[];
+  routes: { [httpMethod: string]: Route };
+}
+
+function createNode(): RouterNode {
+  return { constants: new Map<string, RouterNode>(), templates: [], routes: {} };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Splits given path template at its slashes, omitting a trailing one.
+ */
+function splitSegments(path: Path): Path[] {
+  const segments: Path[] = [[]];
+  for (const component of path) {
+    if (component.type === "param") {
+      segments[segments.length - 1].push(component);
+      continue;
+    }
+    component.value.split("/").forEach((part, index) => {
+      if (index > 0) segments.push([]);
+      if (part !== "") segments[segments.length - 1].push({ type: "const", value: part });
+    });
+  }
+  if (segments.length > 1 && segments[segments.length - 1].length === 0) segments.pop();
+  return segments;
+}
+
+function splitRequestPath(path: string): string[] {
+  const segments = path.split("/");
+  if (segments.length > 1 && segments[segments.length - 1] === "") segments.pop();
+  return segments;
+}
+
+/**
+ * Combines the server's base path with the operation's path, which starts with a '/' as well.
+ */
+function getTemplate(server: Server, method: Method): Path {
+  const basePath = server.basePath.slice();
+  const last = basePath[basePath.length - 1];
+  if (last && last.type === "const" && last.value.endsWith("/")) {
+    basePath[basePath.length - 1] = { type: "const", value: last.value.slice(0, -1) };
+  }
+  return basePath.concat(method.urlSuffix);
+}
+
+/**
+ * @param report Reports that given operation is ambiguous with another one.
+ */
+function insert(root: RouterNode, server: Server, method: Method, report: (method: Method, other: Method, message: string) => void): void {
+  const template = getTemplate(server, method);
+  const captures: Capture[] = [];
+  let node = root;
+  for (const segment of splitSegments(template)) {
+    const params = segment.filter(component => component.type === "param");
+    if (params.length === 0) {
+      const value = segment.map(component => component.type === "const" ? component.value : "").join("");
+      const next = node.constants.get(value) || createNode();
+      node.constants.set(value, next);
+      node = next;
+      continue;
+    }
+
+    // templated segments that only differ in parameter names share an edge
+    let specificity = 0;
+    const pattern = "^" + segment.map(component => {
+      if (component.type === "const") {
+        specificity += component.value.length;
+        return escapeRegExp(component.value);
+      }
+      captures.push({ name: component.name, server: method.urlSuffix.indexOf(component) === -1 });
+      return "(.+?)";
+    }).join("") + "$";
+    let edge = node.templates.filter(edge => edge.pattern.source === pattern)[0];
+    if (!edge) {
+      edge = { pattern: new RegExp(pattern), specificity: specificity, node: createNode() };
+      node.templates.push(edge);
+      node.templates.sort((a, b) => b.specificity - a.specificity);
+    }
+    node = edge.node;
+  }
+
+  // templates matching the same paths (like '/pets/{id}' and '/pets/{name}') are ambiguous, whatever the methods of their operations
+  const route: Route = { method: method, server: server, captures: captures, template: formatPath(template) };
+  for (const httpMethod of Object.keys(node.routes)) {
+    const other = node.routes[httpMethod];
+    if (other.method !== method && (other.template !== route.template || httpMethod === method.httpMethod)) {
+      report(method, other.method, `'${method.httpMethod.toUpperCase()} ${route.template}' is ambiguous with '${httpMethod.toUpperCase()} ${other.template}'`);
+    }
+  }
+  const existing = node.routes[method.httpMethod];
+  if (existing && existing.method !== method) return;
+  node.routes[method.httpMethod] = route;
+}
+
+/**
+ * Depth first search, trying constant segments before templated ones.
+ * @param allowedMethods Collects the methods of routes whose path matches, for reporting.
+ */
+function search(node: RouterNode, segments: string[], index: number, values: string[], httpMethod: string, allowedMethods: string[]): { route: Route, values: string[] } | undefined {
+  if (index === segments.length) {
+    const route = node.routes[httpMethod];
+    if (route) return { route: route, values: values };
+    for (const method of Object.keys(node.routes)) {
+      if (allowedMethods.indexOf(method) === -1) allowedMethods.push(method);
+    }
+    return undefined;
+  }
+  const segment = segments[index];
+  const constant = node.constants.get(segment);
+  const result = constant && search(constant, segments, index + 1, values, httpMethod, allowedMethods);
+  if (result) return result;
+  for (const edge of node.templates) {
+    const match = edge.pattern.exec(segment);
+    if (!match) continue;
+    const templateResult = search(edge.node, segments, index + 1, values.concat(match.slice(1)), httpMethod, allowedMethods);
+    if (templateResult) return templateResult;
+  }
+  return undefined;
+}
+
+/**
+ * Compiles the operations of given model into a router, keyed by the path templates of their servers and paths.
+ * @param document The (resolved) document of the model, to locate diagnostics at its path items.
+ * @param documentUri URI the document was loaded from.
+ */
+export function createRouter(model: Model, document?: any, documentUri?: string): Router {
+  const diagnostics = createDiagnostics(document || {}, documentUri);
+  const paths = (document && document.paths) || {};
+  // each pair of operations is reported once, no matter how many of their servers collide
+  const reported: Method[][] = [];
+  const report = (method: Method, other: Method, message: string) => {
+    if (reported.some(pair => pair[0] === method && pair[1] === other)) return;
+    reported.push([method, other]);
+    diagnostics.report("error", "ambiguous-path", message, paths[formatPath(method.urlSuffix)]);
+  };
+  const root = createNode();
+  for (const method of model.operations) {
+    for (const server of method.servers) {
+      insert(root, server, method, report);
+    }
+  }
+
+  return {
+    diagnostics: diagnostics.list,
+    match: (httpMethod, url) => {
+      const path = parseUrl(url).pathname || "/";
+      const allowedMethods: string[] = [];
+      const found = search(root, splitRequestPath(path), 0, [], httpMethod.toLowerCase(), allowedMethods);
+      if (!found) {
+        return allowedMethods.length === 0
+          ? { type: "not-found" }
+          : { type: "method-not-allowed", allowedMethods: allowedMethods };
+      }
+      const pathValues: { [name: string]: string } = {};
+      const serverValues: { [name: string]: string } = {};
+      found.route.captures.forEach((capture, index) => {
+        (capture.server ? serverValues : pathValues)[capture.name] = found.values[index];
+      });
+      return { type: "match", method: found.route.method, server: found.route.server, pathValues: pathValues, serverValues: serverValues };
+    }
+  };
+}
@@ -0,0 +1,437 @@
+import { Schema } from "./modeler";
+import { validateSchema } from "./validator";
+
+export interface SampleOptions {
+  // seed of the pseudo-random choices, the same seed yields the same samples (default: 0)
+  seed?: number;
+  // nesting depth beyond which only required properties and the minimum number of items are generated (default: 3)
+  maxDepth?: number;
+  // whether to generate optional properties as well (default: true)
+  optionalProperties?: boolean;
+  // whether to use a schema's `default` or `example` where available (default: true)
+  useExamples?: boolean;
+  // omits read-only properties in requests and write-only ones in responses (default: both are generated)
+  direction?: "request" | "response";
+}
+
+interface SampleContext {
+  options: SampleOptions;
+  maxDepth: number;
+  random: () => number;
+  // schemas currently being sampled
+  stack: Schema[];
+}
+
+// see https://en.wikipedia.org/wiki/Xorshift
+function createRandom(seed: number): () => number {
+  let state = (seed ^ 0x9e3779b9) >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / 0x100000000;
+  };
+}
+
+function randomInteger(context: SampleContext, min: number, max: number): number {
+  return min + Math.floor(context.random() * (max - min + 1));
+}
+
+function pick<T>(context: SampleContext, items: T[]): T {
+  return items[randomInteger(context, 0, items.length - 1)];
+}
+
+const lowercase = "abcdefghijklmnopqrstuvwxyz";
+const digits = "0123456789";
+const wordCharacters = lowercase + lowercase.toUpperCase() + digits + "_";
+const printable = range(0x20, 0x7e);
+
+function range(from: number, to: number): string {
+  let result = "";
+  for (let code = from; code <= to; ++code) result += String.fromCharCode(code);
+  return result;
+}
+
+function randomString(context: SampleContext, alphabet: string, length: number): string {
+  let result = "";
+  for (let i = 0; i < length; ++i) result += alphabet[randomInteger(context, 0, alphabet.length - 1)];
+  return result;
+}
+
+function pad(value: number, length: number): string {
+  let result = value.toString();
+  while (result.length < length) result = "0" + result;
+  return result;
+}
+
+function toBase64(bytes: number[]): string {
+  return Buffer.from(bytes).toString("base64");
+}
+
+const formatGenerators: { [format: string]: (context: SampleContext) => string } = {
+  "date": context => `${randomInteger(context, 1970, 2030)}-${pad(randomInteger(context, 1, 12), 2)}-${pad(randomInteger(context, 1, 28), 2)}`,
+  "date-time": context => `${formatGenerators["date"](context)}T${pad(randomInteger(context, 0, 23), 2)}:${pad(randomInteger(context, 0, 59), 2)}:${pad(randomInteger(context, 0, 59), 2)}Z`,
+  "time": context => `${pad(randomInteger(context, 0, 23), 2)}:${pad(randomInteger(context, 0, 59), 2)}:${pad(randomInteger(context, 0, 59), 2)}Z`,
+  "byte": context => toBase64([0, 0, 0, 0, 0, 0].map(() => randomInteger(context, 0, 255))),
+  "binary": context => randomString(context, wordCharacters, 8),
+  "password": context => randomString(context, wordCharacters, 12),
+  "email": context => `${randomString(context, lowercase, 6)}@example.com`,
+  "hostname": context => `${randomString(context, lowercase, 6)}.example.com`,
+  "uri": context => `https://example.com/${randomString(context, lowercase, 6)}`,
+  "url": context => `https://example.com/${randomString(context, lowercase, 6)}`,
+  "uuid": context => {
+    const hex = randomString(context, "0123456789abcdef", 32);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${"89ab"[randomInteger(context, 0, 3)]}${hex.slice(17, 20)}-${hex.slice(20)}`;
+  },
+  "ipv4": context => [0, 0, 0, 0].map(() => randomInteger(context, 0, 255)).join("."),
+  "ipv6": context => [0, 0, 0, 0, 0, 0, 0, 0].map(() => randomInteger(context, 0, 0xffff).toString(16)).join(":")
+};
+
+// regular expressions, as far as needed to generate matching strings
+type RegexNode =
+  { type: "chars", chars: string } |
+  { type: "sequence", items: RegexNode[] } |
+  { type: "alternation", alternatives: RegexNode[] } |
+  { type: "repeat", node: RegexNode, min: number, max: number };
+
+/**
+ * Parses given (ECMAScript) regular expression. Throws on unsupported constructs like lookarounds or backreferences.
+ */
+function parseRegex(pattern: string): RegexNode {
+  let index = 0;
+  const peek = () => pattern[index];
+  const escape = (inClass: boolean): string => {
+    const c = pattern[index++];
+    switch (c) {
+      case "d": return digits;
+      case "w": return wordCharacters;
+      case "s": return " ";
+      case "D": return printable.split("").filter(x => digits.indexOf(x) === -1).join("");
+      case "W": return printable.split("").filter(x => wordCharacters.indexOf(x) === -1).join("");
+      case "S": return printable.slice(1);
+      case "b": return inClass ? "\b" : "";
+      case "B": return "";
+      case "n": return "\n";
+      case "r": return "\r";
+      case "t": return "\t";
+      case "x":
+      case "u":
+        const length = c === "x" ? 2 : 4;
+        const code = pattern.substr(index, length);
+        index += length;
+        return String.fromCharCode(parseInt(code, 16));
+      case undefined: throw new Error("pattern ends with '\\'");
+    }
+    if (c >= "1" && c <= "9") throw new Error("backreferences are not supported");
+    return c;
+  };
+  const parseClass = (): string => {
+    const negated = peek() === "^";
+    if (negated) ++index;
+    let chars = "";
+    let first = true;
+    while (index < pattern.length && (pattern[index] !== "]" || first)) {
+      first = false;
+      let c = pattern[index++];
+      if (c === "\\") {
+        const escaped = escape(true);
+        if (escaped.length !== 1) {
+          chars += escaped;
+          continue;
+        }
+        c = escaped;
+      }
+      if (peek() === "-" && pattern[index + 1] !== undefined && pattern[index + 1] !== "]") {
+        ++index;
+        let to = pattern[index++];
+        if (to === "\\") to = escape(true);
+        chars += range(c.charCodeAt(0), to.charCodeAt(0));
+      } else {
+        chars += c;
+      }
+    }
+    if (pattern[index++] !== "]") throw new Error("unterminated character class");
+    return negated ? printable.split("").filter(x => chars.indexOf(x) === -1).join("") : chars;
+  };
+  const parseAtom = (): RegexNode => {
+    const c = pattern[index++];
+    switch (c) {
+      case "(":
+        if (peek() === "?") {
+          const kind = pattern[index + 1];
+          if (kind === ":") index += 2;
+          else if (kind === "<" && pattern[index + 2] !== "=" && pattern[index + 2] !== "!") index = pattern.indexOf(">", index) + 1;
+          else throw new Error("lookarounds are not supported");
+        }
+        const group = parseAlternation();
+        if (pattern[index++] !== ")") throw new Error("unterminated group");
+        return group;
+      case "[": return { type: "chars", chars: parseClass() };
+      case ".": return { type: "chars", chars: printable };
+      case "\\": return { type: "chars", chars: escape(false) };
+      case "^":
+      case "$": return { type: "sequence", items: [] };
+    }
+    return { type: "chars", chars: c };
+  };
+  const parseQuantified = (): RegexNode => {
+    const atom = parseAtom();
+    let min = 1;
+    let max = 1;
+    const c = peek();
+    const braces = c === "{" ? pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/) : null;
+    if (c === "*") { min = 0; max = Infinity; ++index; }
+    else if (c === "+") { min = 1; max = Infinity; ++index; }
+    else if (c === "?") { min = 0; max = 1; ++index; }
+    else if (braces) {
+      min = +braces[1];
+      max = braces[2] === undefined ? min : (braces[3] === "" ? Infinity : +braces[3]);
+      index += braces[0].length;
+    } else {
+      return atom;
+    }
+    // lazy quantifiers generate the same strings
+    if (peek() === "?") ++index;
+    return { type: "repeat", node: atom, min: min, max: max };
+  };
+  const parseSequence = (): RegexNode => {
+    const items: RegexNode[] = [];
+    while (index < pattern.length && peek() !== "|" && peek() !== ")") items.push(parseQuantified());
+    return { type: "sequence", items: items };
+  };
+  const parseAlternation = (): RegexNode => {
+    const alternatives = [parseSequence()];
+    while (peek() === "|") {
+      ++index;
+      alternatives.push(parseSequence());
+    }
+    return alternatives.length === 1 ? alternatives[0] : { type: "alternation", alternatives: alternatives };
+  };
+  const result = parseAlternation();
+  if (index !== pattern.length) throw new Error(`unexpected '${peek()}'`);
+  return result;
+}
+
+/**
+ * Length of the shortest strings matching given node.
+ */
+function getMinLength(node: RegexNode): number {
+  switch (node.type) {
+    case "chars": return node.chars === "" ? 0 : 1;
+    case "sequence": return node.items.reduce((sum, item) => sum + getMinLength(item), 0);
+    case "alternation": return Math.min(...node.alternatives.map(getMinLength));
+    case "repeat": return node.min * getMinLength(node.node);
+  }
+}
+
+/**
+ * @param maxLength Bound of the length of the result, as far as the node allows (see `getMinLength`).
+ * @param greedy Whether to repeat as often as possible (rather than a few times), to reach a minimum length.
+ */
+function generateFromRegex(context: SampleContext, node: RegexNode, maxLength: number, greedy: boolean): string {
+  switch (node.type) {
+    case "chars": return node.chars === "" ? "" : node.chars[randomInteger(context, 0, node.chars.length - 1)];
+    case "sequence":
+      let result = "";
+      // leave room for the shortest match of the items that follow
+      let rest = getMinLength(node);
+      for (const item of node.items) {
+        rest -= getMinLength(item);
+        result += generateFromRegex(context, item, maxLength - result.length - rest, greedy);
+      }
+      return result;
+    case "alternation":
+      const fitting = node.alternatives.filter(alternative => getMinLength(alternative) <= maxLength);
+      return generateFromRegex(context, pick(context, fitting.length !== 0 ? fitting : node.alternatives), maxLength, greedy);
+    case "repeat":
+      // unbounded repetitions are kept short, unless greedy
+      const count = greedy ? node.max : randomInteger(context, node.min, node.max === Infinity ? node.min + 3 : node.max);
+      const itemLength = getMinLength(node.node);
+      let repeated = "";
+      for (let i = 0; i < count; ++i) {
+        const optional = i >= node.min;
+        if (optional && repeated.length + itemLength > maxLength) break;
+        // leave room for the repetitions that are still required
+        const item = generateFromRegex(context, node.node, maxLength - repeated.length - Math.max(node.min - i - 1, 0) * itemLength, greedy);
+        // repeating what may be empty does not necessarily get any longer
+        if (optional && item === "") break;
+        repeated += item;
+      }
+      return repeated;
+  }
+}
+
+function sampleString(context: SampleContext, schema: Schema & { type: "string" }): string | undefined {
+  const minLength = schema.minLength || 0;
+  const maxLength = schema.maxLength !== undefined ? schema.maxLength : Math.max(minLength, 8) + 4;
+
+  const generator = schema.format !== undefined ? formatGenerators[schema.format] : undefined;
+  if (generator) return generator(context);
+
+  if (schema.pattern !== undefined) {
+    let regex: RegexNode | undefined;
+    try {
+      regex = parseRegex(schema.pattern);
+    } catch (e) {
+      regex = undefined;
+    }
+    if (regex) {
+      // the pattern decides the length, unless bounded
+      const patternMaxLength = schema.maxLength !== undefined ? schema.maxLength : Infinity;
+      const fits = (value: string) => value.length >= minLength && value.length <= patternMaxLength;
+      for (let attempt = 0; attempt < 10; ++attempt) {
+        const value = generateFromRegex(context, regex, patternMaxLength, false);
+        if (fits(value)) return value;
+      }
+      // too short every time, so repeat as often as allowed
+      const value = generateFromRegex(context, regex, patternMaxLength !== Infinity ? patternMaxLength : minLength, true);
+      return fits(value) ? value : undefined;
+    }
+  }
+  return randomString(context, lowercase, randomInteger(context, Math.max(minLength, Math.min(3, maxLength)), Math.min(maxLength, Math.max(minLength, 10))));
+}
+
+function sampleNumber(context: SampleContext, schema: Schema & { type: "integer" | "number" }): number {
+  const integer = schema.type === "integer";
+  // the range of values exactly representable, narrowed by the format
+  const limit = integer && schema.format === "int32" ? 0x7fffffff : 9007199254740991;
+  let min = schema.minimum !== undefined ? schema.minimum : (schema.maximum !== undefined ? schema.maximum - 100 : 0);
+  let max = schema.maximum !== undefined ? schema.maximum : min + 100;
+  min = Math.max(min, -limit - (integer && schema.format === "int32" ? 1 : 0));
+  max = Math.min(max, limit);
+
+  const step = schema.multipleOf !== undefined ? schema.multipleOf : (integer ? 1 : 0.01);
+  let low = Math.ceil(min / step);
+  let high = Math.floor(max / step);
+  if (schema.exclusiveMinimum && low * step <= min) ++low;
+  if (schema.exclusiveMaximum && high * step >= max) --high;
+  // fall back to the minimum if the range is empty
+  if (low > high) return min;
+  const value = randomInteger(context, low, high) * step;
+  // avoid floating point noise like 0.30000000000000004
+  return integer && schema.multipleOf === undefined ? value : parseFloat(value.toPrecision(12));
+}
+
+function sampleArray(context: SampleContext, schema: Schema & { type: "array" }, depth: number): any[] | undefined {
+  const minItems = schema.minItems || 0;
+  const maxItems = schema.maxItems !== undefined ? schema.maxItems : minItems + 2;
+  const count = depth >= context.maxDepth ? minItems : randomInteger(context, Math.max(minItems, Math.min(1, maxItems)), maxItems);
+  const result: any[] = [];
+  const serialized: string[] = [];
+  // generating unique items may be impossible (e.g. booleans), so give up eventually
+  for (let attempt = 0; result.length < count && attempt < count * 10; ++attempt) {
+    const item = sample(context, schema.items, depth + 1);
+    if (item === undefined) break;
+    if (schema.uniqueItems && serialized.indexOf(JSON.stringify(item)) !== -1) continue;
+    result.push(item);
+    serialized.push(JSON.stringify(item));
+  }
+  return result.length >= minItems ? result : undefined;
+}
+
+/**
+ * Finds the value identifying given schema via the discriminator of itself or one of its base schemas.
+ */
+function getDiscriminatorValue(schema: Schema & { type: "object" }): { propertyName: string, value: string } | undefined {
+  const candidates: Schema[] = [schema];
+  for (let i = 0; i < candidates.length; ++i) {
+    const candidate = candidates[i];
+    if (candidate.type !== "object") continue;
+    const discriminator = candidate.discriminator;
+    if (discriminator) {
+      const mapped = Object.keys(discriminator.mapping).filter(value => discriminator.mapping[value] === schema)[0];
+      const value = mapped !== undefined ? mapped : schema.name;
+      if (value !== undefined) return { propertyName: discriminator.propertyName, value: value };
+    }
+    candidates.push(...candidate.baseSchemas.filter(base => candidates.indexOf(base) === -1));
+  }
+  return undefined;
+}
+
+function sampleObject(context: SampleContext, schema: Schema & { type: "object" }, depth: number): { [name: string]: any } | undefined {
+  const result: { [name: string]: any } = {};
+  const direction = context.options.direction;
+  const optional = context.options.optionalProperties !== false && depth < context.maxDepth;
+  for (const name of Object.keys(schema.effectiveProperties)) {
+    const property = schema.effectiveProperties[name];
+    if (direction === "request" ? property.readOnly : (direction === "response" && property.writeOnly)) continue;
+    const required = schema.effectiveRequired.indexOf(name) !== -1;
+    if (!required && !optional) continue;
+    const value = sample(context, property, depth + 1);
+    if (value === undefined) {
+      // required properties leading into too deep cycles make the whole object impossible
+      if (required) return undefined;
+      continue;
+    }
+    result[name] = value;
+  }
+
+  // fill up with additional properties
+  const minProperties = schema.minProperties || 0;
+  for (let i = 1; Object.keys(result).length < minProperties && (schema.additionalProperties || !schema.closed); ++i) {
+    const value = schema.additionalProperties ? sample(context, schema.additionalProperties, depth + 1) : randomString(context, lowercase, 6);
+    if (value === undefined) break;
+    result[`property${i}`] = value;
+  }
+
+  const discriminator = getDiscriminatorValue(schema);
+  if (discriminator) result[discriminator.propertyName] = discriminator.value;
+  return result;
+}
+
+/**
+ * Samples alternatives of `oneOf` until a value matches exactly one of them.
+ */
+function sampleOneOf(context: SampleContext, alternatives: Schema[], depth: number): any {
+  const direction = context.options.direction || "request";
+  for (let attempt = 0; attempt < 10 * alternatives.length; ++attempt) {
+    const value = sample(context, pick(context, alternatives), depth);
+    if (value === undefined) continue;
+    if (alternatives.filter(alternative => validateSchema(alternative, value, direction).length === 0).length === 1) return value;
+  }
+  return undefined;
+}
+
+/**
+ * @returns undefined if no valid value could be generated (within the depth limit).
+ */
+function sample(context: SampleContext, schema: Schema, depth: number): any {
+  if (context.options.useExamples !== false) {
+    if (schema.default !== undefined) return schema.default;
+    if (schema.example !== undefined) return schema.example;
+  }
+  if (schema.enum && schema.enum.length !== 0) return pick(context, schema.enum);
+  if (schema.oneOf && schema.oneOf.length !== 0) return sampleOneOf(context, schema.oneOf, depth);
+  if (schema.anyOf && schema.anyOf.length !== 0) return sample(context, pick(context, schema.anyOf), depth);
+
+  // cycles are followed until twice the depth limit, where only required properties remain
+  if (depth > 2 * context.maxDepth && context.stack.indexOf(schema) !== -1) return schema.nullable ? null : undefined;
+  context.stack.push(schema);
+  try {
+    switch (schema.type) {
+      case "string": return sampleString(context, schema);
+      case "integer":
+      case "number": return sampleNumber(context, schema);
+      case "boolean": return context.random() < 0.5;
+      case "null": return null;
+      case "array": return sampleArray(context, schema, depth);
+      case "object": return sampleObject(context, schema, depth);
+    }
+  } finally {
+    context.stack.pop();
+  }
+}
+
+/**
+ * Generates a value that is valid according to given schema, deterministically for a given seed.
+ */
+export function generateSample(schema: Schema, options: SampleOptions = {}): any {
+  const context: SampleContext = {
+    options: options,
+    maxDepth: options.maxDepth !== undefined ? options.maxDepth : 3,
+    random: createRandom(options.seed || 0),
+    stack: []
+  };
+  return sample(context, schema, 0);
+}
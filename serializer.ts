@@ -0,0 +1,288 @@
+// Parameter serialization, see https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#style-values
+
+import { Encoding, Format, Parameter, Schema } from "./modeler";
+
+/**
+ * What is being (de)serialized, independent of whether it is a parameter or an encoded form property.
+ */
+interface Target {
+  name: string;
+  location: "query" | "header" | "path" | "cookie";
+  format: Format;
+  allowReserved: boolean;
+  schema?: Schema;
+  // media type the value is serialized as (parameters using `content` instead of `schema`)
+  mediaType?: string;
+  // whether '+' stands for a space, as in `application/x-www-form-urlencoded` bodies
+  plusAsSpace: boolean;
+}
+
+type Shape = "primitive" | "array" | "object";
+
+function getParameterTarget(parameter: Parameter): Target {
+  const mediaType = Object.keys(parameter.content).filter(mediaType => mediaType !== "")[0];
+  return {
+    name: parameter.name,
+    location: parameter.location,
+    format: parameter.format,
+    allowReserved: parameter.location === "query" && parameter.allowReserved,
+    schema: parameter.content[mediaType !== undefined ? mediaType : ""].schema,
+    mediaType: mediaType,
+    plusAsSpace: false
+  };
+}
+
+function getEncodingTarget(name: string, encoding: Encoding, schema?: Schema): Target {
+  return {
+    name: name,
+    location: "query",
+    format: encoding.format,
+    allowReserved: encoding.allowReserved,
+    schema: schema,
+    plusAsSpace: true
+  };
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  return mediaType.match(/^application\/([^;]+\+)?json\s*(;|$)/i) !== null;
+}
+
+function getShape(schema?: Schema): Shape {
+  if (schema && schema.type === "array") return "array";
+  if (schema && schema.type === "object") return "object";
+  return "primitive";
+}
+
+function getPropertySchema(schema: Schema | undefined, property: string): Schema | undefined {
+  if (!schema || schema.type !== "object") return undefined;
+  return schema.effectiveProperties[property] || schema.additionalProperties;
+}
+
+function getItemTarget(target: Target): Target {
+  const schema = target.schema;
+  return Object.assign({}, target, { schema: schema && schema.type === "array" ? schema.items : undefined });
+}
+
+/**
+ * Percent-encodes given text as appropriate for the target's location.
+ */
+function encode(target: Target, text: string): string {
+  if (target.location === "header" || target.location === "cookie") return text;
+  const encoded = encodeURIComponent(text);
+  return target.allowReserved
+    ? encoded.replace(/%(3A|2F|3F|23|5B|5D|40|24|26|2B|2C|3B|3D)/gi, decodeURIComponent)
+    : encoded;
+}
+
+function decode(target: Target, text: string): string {
+  if (target.location === "header" || target.location === "cookie") return text;
+  try {
+    return decodeURIComponent(target.plusAsSpace ? text.replace(/\+/g, " ") : text);
+  } catch (e) {
+    throw new Error(`invalid percent-encoding in '${text}' of '${target.name}'`);
+  }
+}
+
+function formatPrimitive(value: any): string {
+  return typeof value === "object" && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function isEmpty(value: any): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === "object" && Object.keys(value).filter(key => value[key] !== undefined).length === 0;
+}
+
+function serialize(target: Target, value: any): string {
+  if (target.mediaType !== undefined) {
+    value = isJsonMediaType(target.mediaType) ? JSON.stringify(value) : formatPrimitive(value);
+  }
+  const name = encode(target, target.name);
+  const explode = target.format.explode;
+  const pairSeparator = target.location === "cookie" ? "; " : "&";
+  const isObject = typeof value === "object" && value !== null && !Array.isArray(value);
+  const items: string[] = isObject ? [] : (Array.isArray(value) ? value : [value]).map(item => encode(target, formatPrimitive(item)));
+  const entries: string[][] = isObject
+    ? Object.keys(value).filter(key => value[key] !== undefined).map(key => [encode(target, key), encode(target, formatPrimitive(value[key]))])
+    : [];
+  // non-exploded objects are serialized as alternating keys and values
+  const flattened = isObject ? entries.reduce((result, entry) => result.concat(entry), [] as string[]) : items;
+
+  switch (target.format.style) {
+    case "matrix":
+      if (isEmpty(value)) return `;${name}`;
+      if (!explode) return `;${name}=${flattened.join(",")}`;
+      return isObject
+        ? entries.map(entry => `;${entry[0]}=${entry[1]}`).join("")
+        : items.map(item => `;${name}=${item}`).join("");
+    case "label":
+      if (isEmpty(value)) return ".";
+      if (!explode) return "." + flattened.join(",");
+      return "." + (isObject ? entries.map(entry => `${entry[0]}=${entry[1]}`) : items).join(".");
+    case "simple":
+      if (isEmpty(value)) return "";
+      return (isObject && explode ? entries.map(entry => `${entry[0]}=${entry[1]}`) : flattened).join(",");
+    case "form":
+    case "spaceDelimited":
+    case "pipeDelimited":
+      if (isEmpty(value)) return `${name}=`;
+      if (!explode) {
+        const delimiter = target.format.style === "form" ? "," : (target.format.style === "spaceDelimited" ? "%20" : "|");
+        return `${name}=${flattened.join(delimiter)}`;
+      }
+      return isObject
+        ? entries.map(entry => `${entry[0]}=${entry[1]}`).join(pairSeparator)
+        : items.map(item => `${name}=${item}`).join(pairSeparator);
+    case "deepObject":
+      if (!isObject && !isEmpty(value)) throw new Error(`style 'deepObject' of '${target.name}' requires an object value`);
+      return entries.map(entry => `${name}[${entry[0]}]=${entry[1]}`).join(pairSeparator);
+  }
+  throw new Error(`unknown style '${target.format.style}' of '${target.name}'`);
+}
+
+/**
+ * Converts given text into the type the schema asks for, leaving it untouched if that is impossible (so validation can complain).
+ */
+function coerce(schema: Schema | undefined, text: string): any {
+  if (!schema) return text;
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return text.trim() !== "" && !isNaN(+text) ? +text : text;
+    case "boolean":
+      return text === "true" ? true : (text === "false" ? false : text);
+    case "null":
+      return text === "" || text === "null" ? null : text;
+  }
+  return text;
+}
+
+function splitPair(pair: string): string[] {
+  const index = pair.indexOf("=");
+  return index === -1 ? [pair, ""] : [pair.slice(0, index), pair.slice(index + 1)];
+}
+
+/**
+ * Builds an object from given (percent-encoded) `key=value` pairs.
+ */
+function parseEntries(target: Target, pairs: string[][]): { [name: string]: any } {
+  const result: { [name: string]: any } = {};
+  for (const pair of pairs) {
+    const key = decode(target, pair[0]);
+    result[key] = coerce(getPropertySchema(target.schema, key), decode(target, pair[1]));
+  }
+  return result;
+}
+
+/**
+ * Parses a delimited list of values, or of keys and values for objects.
+ * @param entries Whether object members are given as `key=value` items rather than as alternating keys and values.
+ */
+function parseDelimited(target: Target, raw: string, delimiter: string | RegExp, entries: boolean): any {
+  const schema = target.schema;
+  switch (getShape(schema)) {
+    case "primitive":
+      return coerce(schema, decode(target, raw));
+    case "array":
+      return raw === "" ? [] : raw.split(delimiter as string).map(item => coerce(getItemTarget(target).schema, decode(target, item)));
+    case "object":
+      const items = raw === "" ? [] : raw.split(delimiter as string);
+      if (entries) return parseEntries(target, items.map(splitPair));
+      if (items.length % 2 !== 0) throw new Error(`expected alternating keys and values for '${target.name}'`);
+      const pairs: string[][] = [];
+      for (let i = 0; i < items.length; i += 2) {
+        pairs.push([items[i], items[i + 1]]);
+      }
+      return parseEntries(target, pairs);
+  }
+}
+
+function deserialize(target: Target, text: string): any {
+  if (target.mediaType !== undefined) {
+    // the serialized media type is the (primitive) value
+    const raw = deserialize(Object.assign({}, target, { mediaType: undefined, schema: undefined }), text);
+    if (raw === undefined || !isJsonMediaType(target.mediaType)) return raw;
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      throw new Error(`invalid JSON in '${target.name}'`);
+    }
+  }
+
+  const explode = target.format.explode;
+  const shape = getShape(target.schema);
+  switch (target.format.style) {
+    case "simple":
+      return parseDelimited(target, text, ",", explode);
+    case "label":
+      if (!text.startsWith(".")) throw new Error(`expected '.' prefix for '${target.name}'`);
+      return parseDelimited(target, text.slice(1), explode ? "." : ",", explode);
+    case "matrix": {
+      if (!text.startsWith(";")) throw new Error(`expected ';' prefix for '${target.name}'`);
+      const pairs = text.slice(1).split(";").map(splitPair);
+      if (shape === "object" && explode) return parseEntries(target, pairs);
+      const values = pairs.filter(pair => decode(target, pair[0]) === target.name).map(pair => pair[1]);
+      if (values.length === 0) throw new Error(`expected ';${target.name}' for '${target.name}'`);
+      if (shape === "array" && explode) return values.map(value => parseDelimited(getItemTarget(target), value, ",", false));
+      return parseDelimited(target, values[0], ",", false);
+    }
+    case "form":
+    case "spaceDelimited":
+    case "pipeDelimited":
+    case "deepObject": {
+      const pairs = text.split(target.location === "cookie" ? /;\s*/ : "&").filter(pair => pair !== "").map(splitPair);
+      if (target.format.style === "deepObject") {
+        const prefix = target.name + "[";
+        const members = pairs.filter(pair => decode(target, pair[0]).startsWith(prefix) && decode(target, pair[0]).endsWith("]"));
+        if (members.length === 0) return undefined;
+        return parseEntries(target, members.map(member => [encode(target, decode(target, member[0]).slice(prefix.length, -1)), member[1]]));
+      }
+      if (shape === "object" && explode) {
+        // members are top-level pairs, so only consider known properties (if restricted)
+        const schema = target.schema;
+        const members = pairs.filter(pair => !schema || schema.type !== "object" || schema.additionalProperties !== undefined || decode(target, pair[0]) in schema.effectiveProperties);
+        return members.length === 0 ? undefined : parseEntries(target, members);
+      }
+      const values = pairs.filter(pair => decode(target, pair[0]) === target.name).map(pair => pair[1]);
+      if (values.length === 0) return undefined;
+      if (shape === "array" && explode) return values.map(value => parseDelimited(getItemTarget(target), value, ",", false));
+      const delimiter = target.format.style === "form" ? "," : (target.format.style === "spaceDelimited" ? /%20| / : /%7C|\|/i);
+      return parseDelimited(target, values[0], delimiter, false);
+    }
+  }
+  throw new Error(`unknown style '${target.format.style}' of '${target.name}'`);
+}
+
+/**
+ * Serializes given value of a parameter as it appears on the wire:
+ * - path: the text replacing the template expression, e.g. ";id=1,2" (matrix)
+ * - query: the query string pairs, e.g. "id=1&id=2" (form, exploded)
+ * - header: the header value
+ * - cookie: the Cookie header pairs, e.g. "id=1; name=x" (form, exploded)
+ */
+export function serializeParameter(parameter: Parameter, value: any): string {
+  return serialize(getParameterTarget(parameter), value);
+}
+
+/**
+ * Parses the value of a parameter from the wire format produced by `serializeParameter`.
+ * Query and cookie parameters are looked up in the whole query string or Cookie header, yielding undefined if absent.
+ */
+export function deserializeParameter(parameter: Parameter, text: string): any {
+  return deserialize(getParameterTarget(parameter), text);
+}
+
+/**
+ * Serializes given property of an `application/x-www-form-urlencoded` body as query string pairs.
+ */
+export function serializeEncoding(name: string, encoding: Encoding, value: any): string {
+  return serialize(getEncodingTarget(name, encoding), value);
+}
+
+/**
+ * Parses given property from an `application/x-www-form-urlencoded` body.
+ * @param schema The property's schema, determining the shape and types of the result.
+ */
+export function deserializeEncoding(name: string, encoding: Encoding, text: string, schema?: Schema): any {
+  return deserialize(getEncodingTarget(name, encoding, schema), text);
+}
@@ -0,0 +1,407 @@
+import * as Swagger from "./types/Swagger";
+import {
+  ComponentsObject,
+  ContentObject,
+  HeaderObject,
+  ISchemaObject,
+  OAuthFlowsObject,
+  OpenAPIObject,
+  OperationObject,
+  ParameterObject,
+  PathItemObject,
+  PathObject,
+  RequestBodyObject,
+  ResponseObject,
+  ResponsesObject,
+  SecuritySchemeObject,
+  ServerObject
+} from "./types/OpenApi";
+import { Diagnostics } from "./diagnostics";
+
+const httpMethods: ("get" | "put" | "post" | "delete" | "options" | "head" | "patch")[]
+  = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+const defaultMediaType = "application/json";
+const formMediaTypes = ["multipart/form-data", "application/x-www-form-urlencoded"];
+
+/**
+ * Converts each entry of given map, skipping those that fail to convert (i.e. yield `undefined`).
+ */
+function mapValues<TSource, TResult>(map: { [name: string]: TSource } | undefined, convert: (source: TSource, name: string) => TResult | undefined): { [name: string]: TResult } | undefined {
+  if (!map) return undefined;
+  const result: { [name: string]: TResult } = {};
+  for (const name of Object.keys(map)) {
+    const converted = convert(map[name], name);
+    if (converted !== undefined) result[name] = converted;
+  }
+  return result;
+}
+
+interface ConversionContext {
+  diagnostics: Diagnostics;
+  // converted objects, keyed by their (resolved) source object, so shared references stay shared
+  schemas: WeakMap<Swagger.SchemaObject, ISchemaObject>;
+  parameters: WeakMap<Swagger.ParameterObjectOther, ParameterObject>;
+  responses: WeakMap<Swagger.ResponseObject, { [mediaTypes: string]: ResponseObject }>;
+  requestBodies: WeakMap<Swagger.ParameterObjectBody, { [mediaTypes: string]: RequestBodyObject }>;
+}
+
+/**
+ * Records that given converted object originates from given source object, so problems with it are located there.
+ */
+function derive<T extends object>(context: ConversionContext, source: object, result: T): T {
+  context.diagnostics.origins.set(result, source);
+  return result;
+}
+
+function convertSchema(context: ConversionContext, schema: Swagger.SchemaObject): ISchemaObject {
+  const cached = context.schemas.get(schema);
+  if (cached) return cached;
+
+  // register before descending, so cycles are preserved
+  const result: ISchemaObject = derive(context, schema, {});
+  context.schemas.set(schema, result);
+  for (const key of Object.keys(schema)) {
+    const value = schema[key];
+    switch (key) {
+      case "items":
+        result.items = convertSchema(context, value);
+        break;
+      case "allOf":
+        result.allOf = (value as Swagger.SchemaObject[]).map(member => convertSchema(context, member));
+        break;
+      case "properties":
+        result.properties = mapValues(value as { [name: string]: Swagger.SchemaObject }, property => convertSchema(context, property));
+        break;
+      case "additionalProperties":
+        result.additionalProperties = typeof value === "boolean" ? value : convertSchema(context, value);
+        break;
+      case "discriminator":
+        result.discriminator = { propertyName: value };
+        break;
+      case "x-nullable":
+        result.nullable = value;
+        break;
+      default:
+        result[key] = value;
+        break;
+    }
+  }
+  if (schema.type === "file") {
+    result.type = "string";
+    result.format = "binary";
+  }
+  return result;
+}
+
+/**
+ * Converts the schema-like part of non-body parameters, headers and items.
+ */
+function convertItems(context: ConversionContext, items: Swagger.ItemsObject): ISchemaObject {
+  const result: ISchemaObject = derive(context, items, {
+    type: items.type === "file" ? "string" : items.type,
+    format: items.type === "file" ? "binary" : items.format,
+    items: items.items ? convertItems(context, items.items) : undefined,
+    default: items.default,
+    maximum: items.maximum,
+    exclusiveMaximum: items.exclusiveMaximum,
+    minimum: items.minimum,
+    exclusiveMinimum: items.exclusiveMinimum,
+    maxLength: items.maxLength,
+    minLength: items.minLength,
+    pattern: items.pattern,
+    maxItems: items.maxItems,
+    minItems: items.minItems,
+    uniqueItems: items.uniqueItems,
+    enum: items.enum,
+    multipleOf: items.multipleOf
+  });
+  for (const key of Object.keys(result)) {
+    if (result[key] === undefined) delete result[key];
+  }
+  return result;
+}
+
+const collectionFormats = ["csv", "ssv", "tsv", "pipes", "multi"];
+
+function convertCollectionFormat(context: ConversionContext, parameter: Swagger.ParameterObjectOther): { style?: ParameterObject["style"], explode?: boolean } {
+  if (parameter.type !== "array") return {};
+  switch (parameter.collectionFormat || "csv") {
+    case "csv": return { style: parameter.in === "query" ? "form" : "simple", explode: false };
+    case "ssv": return { style: "spaceDelimited", explode: false };
+    case "pipes": return { style: "pipeDelimited", explode: false };
+    case "multi": return { style: "form", explode: true };
+    case "tsv":
+      context.diagnostics.report("warning", "unsupported-collection-format",
+        `collection format 'tsv' of parameter '${parameter.name}' has no equivalent in OpenAPI 3, treating it as 'csv'`, parameter);
+      return { style: parameter.in === "query" ? "form" : "simple", explode: false };
+  }
+  context.diagnostics.report("error", "unknown-collection-format",
+    `unknown collection format '${parameter.collectionFormat}' of parameter '${parameter.name}' (expected ${collectionFormats.map(x => `'${x}'`).join(", ")})`, parameter);
+  return {};
+}
+
+/**
+ * Converts parameters other than body and form parameters (which are part of the request body, see `convertOperation`).
+ */
+function convertParameter(context: ConversionContext, parameter: Swagger.ParameterObjectOther): ParameterObject {
+  const cached = context.parameters.get(parameter);
+  if (cached) return cached;
+
+  const result: ParameterObject = derive(context, parameter, Object.assign({
+    name: parameter.name,
+    in: parameter.in as ParameterObject["in"],
+    description: parameter.description,
+    required: parameter.required,
+    allowEmptyValue: parameter.allowEmptyValue,
+    schema: convertItems(context, parameter)
+  }, convertCollectionFormat(context, parameter)));
+  context.parameters.set(parameter, result);
+  return result;
+}
+
+function convertBodyParameter(context: ConversionContext, parameter: Swagger.ParameterObjectBody, consumes: string[]): RequestBodyObject {
+  const byMediaTypes = context.requestBodies.get(parameter) || {};
+  context.requestBodies.set(parameter, byMediaTypes);
+  const key = JSON.stringify(consumes);
+  if (!byMediaTypes[key]) {
+    const content: ContentObject = {};
+    for (const mediaType of consumes) {
+      content[mediaType] = derive(context, parameter, { schema: convertSchema(context, parameter.schema as Swagger.SchemaObject) });
+    }
+    byMediaTypes[key] = derive(context, parameter, {
+      description: parameter.description,
+      content: content,
+      required: parameter.required
+    });
+  }
+  return byMediaTypes[key];
+}
+
+function convertFormParameters(context: ConversionContext, parameters: Swagger.ParameterObjectOther[], consumes: string[]): RequestBodyObject {
+  const schema: ISchemaObject = { type: "object", properties: {}, required: [] };
+  for (const parameter of parameters) {
+    const property = convertItems(context, parameter);
+    if (parameter.description !== undefined) property.description = parameter.description;
+    (schema.properties as { [name: string]: ISchemaObject })[parameter.name] = property;
+    if (parameter.required) (schema.required as string[]).push(parameter.name);
+  }
+
+  // form data is only meaningful for form media types, so pick one if none is declared
+  let mediaTypes = consumes.filter(mediaType => formMediaTypes.indexOf(mediaType) !== -1);
+  if (mediaTypes.length === 0) {
+    mediaTypes = [parameters.some(x => x.type === "file") ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+  }
+  const content: ContentObject = {};
+  for (const mediaType of mediaTypes) {
+    content[mediaType] = { schema: schema };
+  }
+  return {
+    content: content,
+    required: parameters.some(x => x.required === true)
+  };
+}
+
+function convertHeader(context: ConversionContext, header: Swagger.HeaderObject): HeaderObject {
+  // name and location are filled in by the modeler
+  return derive(context, header, {
+    description: header.description,
+    schema: convertItems(context, header)
+  } as HeaderObject);
+}
+
+function convertResponse(context: ConversionContext, response: Swagger.ResponseObject, produces: string[]): ResponseObject {
+  const byMediaTypes = context.responses.get(response) || {};
+  context.responses.set(response, byMediaTypes);
+  const key = JSON.stringify(produces);
+  if (!byMediaTypes[key]) {
+    const examples = response.examples || {};
+    let content: ContentObject | undefined = undefined;
+    if (response.schema) {
+      content = {};
+      for (const mediaType of produces) {
+        content[mediaType] = derive(context, response, { schema: convertSchema(context, response.schema as Swagger.SchemaObject) });
+        if (mediaType in examples) content[mediaType].example = examples[mediaType];
+      }
+    }
+    byMediaTypes[key] = derive(context, response, {
+      description: response.description,
+      headers: mapValues(response.headers, header => convertHeader(context, header)),
+      content: content
+    });
+  }
+  return byMediaTypes[key];
+}
+
+/**
+ * Returns undefined for schemes that cannot be converted (having reported why).
+ */
+function convertSecurityScheme(context: ConversionContext, name: string, scheme: Swagger.SecuritySchemeObject): SecuritySchemeObject | undefined {
+  const invalid = (message: string) => context.diagnostics.report("error", "invalid-security-scheme", `security scheme '${name}' ${message}`, scheme);
+  switch (scheme.type) {
+    case "basic":
+      return derive<SecuritySchemeObject>(context, scheme, { type: "http", scheme: "basic", description: scheme.description });
+    case "apiKey":
+      return derive<SecuritySchemeObject>(context, scheme, { type: "apiKey", name: scheme.name, in: scheme.in, description: scheme.description });
+    case "oauth2":
+      // missing URLs are left for the modeler to report
+      const scopes = scheme.scopes || {};
+      const flows: OAuthFlowsObject = {};
+      switch (scheme.flow) {
+        case "implicit":
+          flows.implicit = { authorizationUrl: scheme.authorizationUrl || "", scopes: scopes };
+          break;
+        case "password":
+          flows.password = { tokenUrl: scheme.tokenUrl || "", scopes: scopes };
+          break;
+        case "application":
+          flows.clientCredentials = { tokenUrl: scheme.tokenUrl || "", scopes: scopes };
+          break;
+        case "accessCode":
+          flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl || "", tokenUrl: scheme.tokenUrl || "", scopes: scopes };
+          break;
+        default:
+          invalid(`has unknown OAuth2 flow '${scheme.flow}' (expected 'implicit', 'password', 'application' or 'accessCode')`);
+          return undefined;
+      }
+      return derive<SecuritySchemeObject>(context, scheme, { type: "oauth2", flows: flows, description: scheme.description });
+  }
+  invalid(`has unknown type '${(scheme as any).type}' (expected 'basic', 'apiKey' or 'oauth2')`);
+  return undefined;
+}
+
+function convertServers(swagger: Swagger.SwaggerObject, schemes?: string[]): ServerObject[] | undefined {
+  const basePath = swagger.basePath || "";
+  if (!swagger.host) return basePath ? [{ url: basePath }] : undefined;
+  if (!schemes || schemes.length === 0) return [{ url: `//${swagger.host}${basePath}` }];
+  return schemes.map(scheme => ({ url: `${scheme}://${swagger.host}${basePath}` }));
+}
+
+function getParameterKey(parameter: Swagger.ParameterObject): string {
+  return JSON.stringify([parameter.name, parameter.in]);
+}
+
+function convertOperation(context: ConversionContext, swagger: Swagger.SwaggerObject, pathParameters: Swagger.ParameterObject[], operation: Swagger.OperationObject): OperationObject {
+  const consumes = operation.consumes || swagger.consumes || [defaultMediaType];
+  const produces = operation.produces || swagger.produces || [defaultMediaType];
+
+  // body and form parameters declared on the path apply unless overridden
+  const operationParameters = (operation.parameters || []) as Swagger.ParameterObject[];
+  const operationParameterKeys = operationParameters.map(getParameterKey);
+  const parameters = pathParameters
+    .filter(x => (x.in === "body" || x.in === "formData") && operationParameterKeys.indexOf(getParameterKey(x)) === -1)
+    .concat(operationParameters);
+
+  const bodyParameters = parameters.filter(x => x.in === "body") as Swagger.ParameterObjectBody[];
+  const formParameters = parameters.filter(x => x.in === "formData") as Swagger.ParameterObjectOther[];
+  // the first body parameter wins
+  for (const parameter of bodyParameters.slice(1)) {
+    context.diagnostics.report("error", "conflicting-body-parameters", `at most one body parameter allowed, found '${bodyParameters[0].name}' and '${parameter.name}'`, parameter);
+  }
+  if (bodyParameters.length !== 0 && formParameters.length !== 0) {
+    context.diagnostics.report("error", "conflicting-body-parameters", `body parameter '${bodyParameters[0].name}' and form parameters are mutually exclusive`, formParameters[0]);
+  }
+  const requestBody = bodyParameters.length !== 0
+    ? convertBodyParameter(context, bodyParameters[0], consumes)
+    : (formParameters.length !== 0 ? convertFormParameters(context, formParameters, consumes) : undefined);
+
+  if (!operation.responses) {
+    context.diagnostics.report("error", "missing-responses", "expected 'responses' on operation", operation);
+  }
+  const responseObjects = operation.responses || {};
+  const responses: ResponsesObject = derive(context, responseObjects, {} as ResponsesObject);
+  for (const statusCode of Object.keys(responseObjects)) {
+    if (statusCode.startsWith("x-")) continue;
+    responses[statusCode] = convertResponse(context, responseObjects[statusCode] as Swagger.ResponseObject, produces);
+  }
+
+  return derive(context, operation, {
+    tags: operation.tags,
+    summary: operation.summary,
+    description: operation.description,
+    externalDocs: operation.externalDocs,
+    operationId: operation.operationId,
+    parameters: convertParameters(context, operationParameters, parameters),
+    requestBody: requestBody,
+    responses: responses,
+    deprecated: operation.deprecated,
+    security: operation.security,
+    servers: operation.schemes ? convertServers(swagger, operation.schemes) : undefined
+  });
+}
+
+/**
+ * Converts given parameters other than body and form parameters.
+ * @param source The parameter list (of the path item or operation) the converted one is located at.
+ */
+function convertParameters(context: ConversionContext, source: Swagger.ParameterObject[], parameters: Swagger.ParameterObject[]): ParameterObject[] {
+  const others = parameters.filter(x => x.in !== "body" && x.in !== "formData") as Swagger.ParameterObjectOther[];
+  return derive(context, source, others.map(parameter => convertParameter(context, parameter)));
+}
+
+function convertPathItem(context: ConversionContext, swagger: Swagger.SwaggerObject, pathItem: Swagger.PathItemObject): PathItemObject {
+  const pathParameters = (pathItem.parameters || []) as Swagger.ParameterObject[];
+  const result: PathItemObject = derive(context, pathItem, {
+    parameters: convertParameters(context, pathParameters, pathParameters)
+  });
+  for (const httpMethod of httpMethods) {
+    const operation = pathItem[httpMethod];
+    if (operation) {
+      result[httpMethod] = convertOperation(context, swagger, pathParameters, operation);
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a (resolved) Swagger 2.0 document into the equivalent OpenAPI 3.0 document.
+ * @param diagnostics Sink for problems preventing an exact conversion, which also learns where converted objects originate from.
+ */
+export function convertSwagger(swagger: Swagger.SwaggerObject, diagnostics: Diagnostics): OpenAPIObject {
+  const context: ConversionContext = {
+    diagnostics: diagnostics,
+    schemas: new WeakMap<Swagger.SchemaObject, ISchemaObject>(),
+    parameters: new WeakMap<Swagger.ParameterObjectOther, ParameterObject>(),
+    responses: new WeakMap<Swagger.ResponseObject, { [mediaTypes: string]: ResponseObject }>(),
+    requestBodies: new WeakMap<Swagger.ParameterObjectBody, { [mediaTypes: string]: RequestBodyObject }>()
+  };
+  const globalParameters = swagger.parameters || {};
+  const components: ComponentsObject = {
+    schemas: mapValues(swagger.definitions, schema => convertSchema(context, schema)),
+    responses: mapValues(swagger.responses, response => convertResponse(context, response, swagger.produces || [defaultMediaType])),
+    parameters: {},
+    requestBodies: {},
+    securitySchemes: mapValues(swagger.securityDefinitions, (scheme, name) => convertSecurityScheme(context, name, scheme))
+  };
+  for (const name of Object.keys(globalParameters)) {
+    const parameter = globalParameters[name];
+    switch (parameter.in) {
+      case "body":
+        (components.requestBodies as { [name: string]: RequestBodyObject })[name] = convertBodyParameter(context, parameter, swagger.consumes || [defaultMediaType]);
+        break;
+      case "formData":
+        // only meaningful as part of an operation's request body
+        break;
+      default:
+        (components.parameters as { [name: string]: ParameterObject })[name] = convertParameter(context, parameter);
+        break;
+    }
+  }
+
+  const paths: PathObject = derive(context, swagger.paths, {});
+  for (const path of Object.keys(swagger.paths)) {
+    if (path.startsWith("x-")) continue;
+    paths[path] = convertPathItem(context, swagger, swagger.paths[path]);
+  }
+
+  return derive(context, swagger, {
+    openapi: "3.0.0",
+    info: swagger.info,
+    servers: convertServers(swagger, swagger.schemes),
+    paths: paths,
+    components: components,
+    security: swagger.security,
+    tags: swagger.tags,
+    externalDocs: swagger.externalDocs
+  });
+}
@@ -0,0 +1,79 @@
+import { deepStrictEqual, ok } from "assert";
+import { resolve as resolvePath } from "path";
+import * as ts from "typescript";
+import { generateClient } from "../client-generator";
+import { runDocument } from "./helpers";
+
+/**
+ * Type-checks given module, which may import modules of this package, returning the errors found.
+ */
+function typeCheck(code: string): string[] {
+  const fileName = resolvePath(__dirname, "generated-client.ts");
+  const options: ts.CompilerOptions = { strict: true, noEmit: true, lib: ["lib.es2016.d.ts"], module: ts.ModuleKind.CommonJS, types: ["node"] };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, languageVersion, onError) =>
+    name === fileName ? ts.createSourceFile(name, code, languageVersion) : getSourceFile.call(host, name, languageVersion, onError);
+  const fileExists = host.fileExists;
+  host.fileExists = name => name === fileName || fileExists.call(host, name);
+  const program = ts.createProgram([fileName], options, host);
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+}
+
+describe("client-generator", () => {
+  it("generates a client that compiles, even if schemas are named like types of the runtime", async function () {
+    this.timeout(60000);
+    const result = await runDocument(`
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+servers: [{ url: "https://{region}.example.com/v1", variables: { region: { default: eu } } }]
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: integer } }
+        - { name: fields, in: query, schema: { type: array, items: { type: string } } }
+      responses:
+        "200":
+          description: the pet
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/ClientResponse" }
+        default:
+          description: the error
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Promise" }
+    put:
+      operationId: updatePet
+      security: [{ key: [] }]
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: integer } }
+      requestBody:
+        required: true
+        content:
+          application/x-www-form-urlencoded:
+            schema: { $ref: "#/components/schemas/ClientOptions" }
+      responses:
+        "204": { description: updated }
+components:
+  securitySchemes:
+    key: { type: apiKey, name: X-Key, in: header }
+  schemas:
+    ClientRequest: { type: object, properties: { id: { type: integer } } }
+    ClientResponse: { type: object, properties: { request: { $ref: "#/components/schemas/ClientRequest" } } }
+    ClientOptions: { type: object, properties: { name: { type: string } } }
+    SecurityHook: { type: string }
+    OperationDescriptor: { type: string }
+    ResponseBody: { type: string }
+    Operations: { type: string }
+    Promise: { type: object, properties: { message: { type: string } } }
+`);
+    deepStrictEqual(result.diagnostics, []);
+    const code = generateClient(result.model, { runtimeModule: resolvePath(__dirname, "..", "serializer") });
+    ok(code.indexOf("export interface ClientResponse2 {") !== -1, code);
+    ok(code.indexOf("export interface Promise2 {") !== -1, code);
+    deepStrictEqual(typeCheck(code), []);
+  });
+});
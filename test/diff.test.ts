@@ -0,0 +1,130 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { diffModels } from "../diff";
+import { runDocument } from "./helpers";
+
+/**
+ * Diffs two documents consisting of given paths (and components), written as YAML flow mappings.
+ */
+async function diff(before: string, after: string): Promise<string[]> {
+  const load = async (paths: string) => {
+    const result = await runDocument(`{ openapi: 3.0.3, info: { title: test, version: "1.0" }, ${paths} }`);
+    deepStrictEqual(result.diagnostics, []);
+    return result.model;
+  };
+  const report = diffModels(await load(before), await load(after));
+  strictEqual(report.breaking, report.changes.some(change => change.breaking));
+  return report.changes.map(change => `${change.breaking ? "breaking" : "compatible"} ${change.code}: ${change.operation}${change.pointer ? ` ${change.pointer}` : ""}`);
+}
+
+function operation(fields: string = ""): string {
+  return `{ ${fields}${fields ? ", " : ""}responses: { "200": { description: ok } } }`;
+}
+
+/**
+ * An operation taking and returning a value of given schema.
+ */
+function echo(schema: string): string {
+  return `paths: { /echo: { post: {
+    requestBody: { content: { application/json: { schema: ${schema} } } },
+    responses: { "200": { description: ok, content: { application/json: { schema: ${schema} } } } } } } }`;
+}
+
+describe("diff", () => {
+  it("reports no changes between equal documents", async () => {
+    deepStrictEqual(await diff(`paths: { /pets: { get: ${operation()} } }`, `paths: { /pets: { get: ${operation()} } }`), []);
+  });
+
+  it("matches operations by method and path template, whatever the parameter names", async () => {
+    const path = (name: string) => `paths: { "/pets/{${name}}": { parameters: [{ name: ${name}, in: path, required: true, schema: { type: integer } }], get: ${operation()} } }`;
+    deepStrictEqual(await diff(path("id"), path("petId")), []);
+  });
+
+  it("classifies added, removed and deprecated operations", async () => {
+    deepStrictEqual(await diff(
+      `paths: { /pets: { get: ${operation()}, delete: ${operation()} } }`,
+      `paths: { /pets: { get: ${operation("deprecated: true")}, post: ${operation()} } }`
+    ), [
+      "compatible operation-deprecated: GET /pets",
+      "breaking operation-removed: DELETE /pets",
+      "compatible operation-added: POST /pets"
+    ]);
+  });
+
+  it("classifies parameter changes", async () => {
+    deepStrictEqual(await diff(
+      `paths: { /pets: { get: ${operation(`parameters: [
+        { name: limit, in: query, schema: { type: integer } },
+        { name: sort, in: query, schema: { type: string } },
+        { name: tags, in: query, schema: { type: array, items: { type: string } } },
+        { name: X-Trace, in: header, required: true, schema: { type: string } }]`)} } }`,
+      `paths: { /pets: { get: ${operation(`parameters: [
+        { name: limit, in: query, required: true, schema: { type: integer } },
+        { name: tags, in: query, explode: false, schema: { type: array, items: { type: string } } },
+        { name: X-Trace, in: header, schema: { type: string } },
+        { name: page, in: query, schema: { type: integer } },
+        { name: owner, in: query, required: true, schema: { type: string } }]`)} } }`
+    ), [
+      "breaking parameter-required: GET /pets /parameters/query/limit",
+      "breaking parameter-removed: GET /pets /parameters/query/sort",
+      "breaking parameter-format-changed: GET /pets /parameters/query/tags",
+      "compatible parameter-optional: GET /pets /parameters/header/X-Trace",
+      "compatible parameter-added: GET /pets /parameters/query/page",
+      "breaking parameter-added: GET /pets /parameters/query/owner"
+    ]);
+  });
+
+  it("considers narrowed schemas breaking in requests and widened ones breaking in responses", async () => {
+    deepStrictEqual(await diff(echo("{ type: string, maxLength: 10 }"), echo("{ type: string, maxLength: 5 }")), [
+      "breaking constraint-tightened: POST /echo /requestBody/content/application~1json/schema",
+      "compatible constraint-tightened: POST /echo /responses/200/content/application~1json/schema"
+    ]);
+    deepStrictEqual(await diff(echo("{ type: string, enum: [a, b] }"), echo("{ type: string, enum: [a, b, c] }")), [
+      "compatible enum-values-added: POST /echo /requestBody/content/application~1json/schema",
+      "breaking enum-values-added: POST /echo /responses/200/content/application~1json/schema"
+    ]);
+    deepStrictEqual(await diff(echo("{ type: integer, minimum: 0 }"), echo("{ type: integer, minimum: 0, exclusiveMinimum: true }")), [
+      "breaking constraint-tightened: POST /echo /requestBody/content/application~1json/schema",
+      "compatible constraint-tightened: POST /echo /responses/200/content/application~1json/schema"
+    ]);
+  });
+
+  it("classifies property changes", async () => {
+    deepStrictEqual(await diff(
+      echo("{ type: object, required: [name], properties: { name: { type: string }, tag: { type: string } } }"),
+      echo("{ type: object, required: [name, tag, age], properties: { name: { type: string, nullable: true }, tag: { type: string }, age: { type: integer } } }")
+    ), [
+      "compatible nullable-added: POST /echo /requestBody/content/application~1json/schema/properties/name",
+      "breaking property-added: POST /echo /requestBody/content/application~1json/schema/properties/age",
+      "breaking property-required: POST /echo /requestBody/content/application~1json/schema/properties/tag",
+      "breaking nullable-added: POST /echo /responses/200/content/application~1json/schema/properties/name",
+      "compatible property-added: POST /echo /responses/200/content/application~1json/schema/properties/age",
+      "compatible property-required: POST /echo /responses/200/content/application~1json/schema/properties/tag"
+    ]);
+  });
+
+  it("considers type changes breaking either way", async () => {
+    deepStrictEqual(await diff(echo("{ type: integer }"), echo("{ type: string }")), [
+      "breaking type-changed: POST /echo /requestBody/content/application~1json/schema",
+      "breaking type-changed: POST /echo /responses/200/content/application~1json/schema"
+    ]);
+  });
+
+  it("classifies response changes, reporting default responses as 'default'", async () => {
+    deepStrictEqual(await diff(
+      `paths: { /pets: { get: { responses: { "200": { description: ok, headers: { X-Total: { schema: { type: integer } } } }, default: { description: error } } } } }`,
+      `paths: { /pets: { get: { responses: { "200": { description: ok, headers: { X-Next: { schema: { type: string } } } }, "404": { description: not found } } } } }`
+    ), [
+      "breaking header-removed: GET /pets /responses/200/headers/X-Total",
+      "compatible header-added: GET /pets /responses/200/headers/X-Next",
+      "breaking response-removed: GET /pets /responses/default",
+      "compatible response-added: GET /pets /responses/404"
+    ]);
+  });
+
+  it("considers required credentials breaking", async () => {
+    const document = (security: string) => `paths: { /pets: { get: ${operation(`security: ${security}`)} } },
+      components: { securitySchemes: { key: { type: apiKey, name: key, in: header } } }`;
+    deepStrictEqual(await diff(document("[{}, { key: [] }]"), document("[{ key: [] }]")), ["breaking security-added: GET /pets /security"]);
+    deepStrictEqual(await diff(document("[{ key: [] }]"), document("[{}, { key: [] }]")), []);
+  });
+});
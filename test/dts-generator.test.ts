@@ -0,0 +1,187 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { generateDeclarations } from "../dts-generator";
+import { runDocument } from "./helpers";
+
+async function generate(text: string): Promise<string> {
+  const result = await runDocument(text);
+  deepStrictEqual(result.diagnostics, []);
+  return generateDeclarations(result.model);
+}
+
+describe("dts-generator", () => {
+  it("declares named schemas and operations", async () => {
+    strictEqual(await generate(`
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: integer } }
+        - { name: tags, in: query, schema: { type: array, items: { $ref: "#/components/schemas/Tag" } } }
+      responses:
+        "200":
+          description: the pet
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+        default:
+          description: the error
+          content:
+            application/json:
+              schema: { type: object, properties: { message: { type: string } } }
+    put:
+      operationId: updatePet
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: integer } }
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: "#/components/schemas/Pet" }
+      responses:
+        "204": { description: updated }
+components:
+  schemas:
+    Tag:
+      type: string
+      enum: [dog, cat]
+    Pet:
+      description: A pet.
+      type: object
+      required: [id, name]
+      properties:
+        id: { type: integer, readOnly: true }
+        name: { type: string }
+        nickname: { type: string, nullable: true }
+        password: { type: string, writeOnly: true }
+        tags: { type: array, items: { $ref: "#/components/schemas/Tag" } }
+        attributes: { type: object, additionalProperties: { type: string } }
+        owner: { $ref: "#/components/schemas/Owner" }
+    Owner:
+      allOf:
+        - $ref: "#/components/schemas/Person"
+        - type: object
+          properties:
+            pets: { type: array, items: { $ref: "#/components/schemas/Pet" } }
+    Person:
+      type: object
+      properties:
+        name: { type: string }
+        contact:
+          oneOf:
+            - { type: string, format: email }
+            - $ref: "#/components/schemas/Phone"
+    Phone:
+      type: object
+      nullable: true
+      properties:
+        number: { type: string }
+`), `export type Tag = "dog" | "cat";
+
+/** A pet. */
+export interface Pet {
+  readonly id: number;
+  name: string;
+  nickname?: string | null;
+  password?: string;
+  tags?: Tag[];
+  attributes?: {
+    [key: string]: string;
+  };
+  owner?: Owner;
+}
+
+export type Owner = Person & {
+  pets?: Pet[];
+};
+
+export interface Person {
+  name?: string;
+  contact?: string | Phone;
+}
+
+export type Phone = {
+  number?: string;
+} | null;
+
+export interface Operations {
+  getPet: {
+    parameters: {
+      path: {
+        petId: number;
+      };
+      query?: {
+        tags?: Tag[];
+      };
+    };
+    responses: {
+      /** the pet */
+      "200": Pet;
+      /** the error */
+      default: {
+        message?: string;
+      };
+    };
+  };
+  updatePet: {
+    parameters: {
+      path: {
+        petId: number;
+      };
+    };
+    requestBody: Pet;
+    responses: {
+      /** updated */
+      "204": void;
+    };
+  };
+}
+`);
+  });
+
+  it("renders nullable enums and alternatives, and index signatures covering the declared properties", async () => {
+    strictEqual(await generate(`
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths: {}
+components:
+  schemas:
+    Size: { type: string, enum: [small, large], nullable: true }
+    Labels:
+      type: object
+      required: [count]
+      properties:
+        count: { type: integer }
+        note: { type: string }
+      additionalProperties: { type: boolean }
+    Anything: { type: object, additionalProperties: true }
+    Shape:
+      oneOf:
+        - { type: object, properties: { radius: { type: number } } }
+        - { type: object, properties: { side: { type: number } } }
+      nullable: true
+`), `export type Size = "small" | "large" | null;
+
+export interface Labels {
+  count: number;
+  note?: string;
+  [key: string]: boolean | number | string | undefined;
+}
+
+export interface Anything {
+  [key: string]: any;
+}
+
+export type Shape = {
+  radius?: number;
+} | {
+  side?: number;
+} | null;
+
+export interface Operations {
+}
+`);
+  });
+});
@@ -0,0 +1,141 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { emitDocument } from "../emitter";
+import { run } from "../modeler";
+import { loadDocument, runDocument } from "./helpers";
+
+const document = `
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+servers:
+  - url: https://example.com/{version}
+    variables:
+      version: { default: v1, enum: [v1, v2] }
+security:
+  - key: []
+paths:
+  /pets:
+    post:
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: "#/components/schemas/NewPet" }
+      responses:
+        "201":
+          description: created
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+        default: { $ref: "#/components/responses/Error" }
+  /pets/{id}:
+    parameters:
+      - { name: id, in: path, required: true, schema: { type: integer, format: int64 } }
+    get:
+      parameters:
+        - { name: fields, in: query, schema: &fields { type: array, items: { type: string } } }
+      responses:
+        "200":
+          description: pet
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+        default: { $ref: "#/components/responses/Error" }
+    delete:
+      parameters:
+        - { name: fields, in: header, schema: *fields }
+      security: []
+      responses:
+        "204": { description: deleted }
+components:
+  securitySchemes:
+    key: { type: apiKey, name: X-Key, in: header }
+  responses:
+    Error:
+      description: error
+      content:
+        application/json:
+          schema:
+            type: object
+            properties:
+              message: { type: string }
+  schemas:
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id: { type: integer, format: int64, readOnly: true }
+        name: { type: string }
+        tag: { type: string, nullable: true }
+        parent: { $ref: "#/components/schemas/Pet" }
+    NewPet: { $ref: "#/components/schemas/Pet" }
+`;
+
+async function emit(text: string): Promise<any> {
+  const result = await runDocument(text);
+  deepStrictEqual(result.diagnostics, []);
+  return emitDocument(result.model);
+}
+
+describe("emitter", () => {
+  it("hoists shared schemas into the components and emits aliases as references", async () => {
+    const emitted = await emit(document);
+    deepStrictEqual(Object.keys(emitted.components.schemas), ["NewPet", "Pet", "Schema"]);
+    strictEqual(emitted.components.schemas["NewPet"].$ref, "#/components/schemas/Pet");
+    strictEqual(emitted.components.schemas["Pet"].properties.parent.$ref, "#/components/schemas/Pet");
+    deepStrictEqual(emitted.components.schemas["Schema"], { type: "array", nullable: false, items: { type: "string", nullable: false } });
+    const getPet = emitted.paths["/pets/{id}"].get;
+    strictEqual(getPet.parameters[1].schema.$ref, "#/components/schemas/Schema");
+    strictEqual(getPet.responses["200"].content["application/json"].schema.$ref, "#/components/schemas/Pet");
+    strictEqual(getPet.responses["default"].$ref, "#/components/responses/Error");
+    strictEqual(emitted.paths["/pets"].post.requestBody.content["application/json"].schema.$ref, "#/components/schemas/Pet");
+  });
+
+  it("pushes path level parameters down to the operations, making their defaults explicit", async () => {
+    const emitted = await emit(document);
+    const pathItem = emitted.paths["/pets/{id}"];
+    strictEqual(pathItem.parameters, undefined);
+    const id = { name: "id", in: "path", required: true, style: "simple", explode: false, schema: { type: "integer", format: "int64", nullable: false } };
+    deepStrictEqual(pathItem.get.parameters[0], id);
+    deepStrictEqual(pathItem.delete.parameters[0], id);
+    deepStrictEqual(Object.keys(pathItem.get.parameters[1]), ["name", "in", "required", "style", "explode", "schema"]);
+    strictEqual(pathItem.get.parameters[1].explode, true);
+  });
+
+  it("emits servers and security shared by all operations at the document", async () => {
+    const emitted = await emit(document);
+    deepStrictEqual(emitted.servers, [{ url: "https://example.com/{version}", variables: { version: { default: "v1", enum: ["v1", "v2"] } } }]);
+    strictEqual(emitted.security, undefined);
+    deepStrictEqual(emitted.paths["/pets/{id}"].get.security, [{ key: [] }]);
+    // no security is required by the document, so the operation's empty one goes without saying
+    strictEqual(emitted.paths["/pets/{id}"].delete.security, undefined);
+  });
+
+  it("orders keys deterministically", async () => {
+    const emitted = await emit(document);
+    deepStrictEqual(Object.keys(emitted.paths), ["/pets", "/pets/{id}"]);
+    deepStrictEqual(Object.keys(emitted.components.schemas), ["NewPet", "Pet", "Schema"]);
+    deepStrictEqual(Object.keys(emitted.paths["/pets/{id}"]), ["get", "delete"]);
+    deepStrictEqual(Object.keys(emitted.components.schemas["Pet"].properties), ["id", "name", "parent", "tag"]);
+    // the same API, declared in a different order
+    const reverse = (map: any) => Object.keys(map).reverse().reduce((result: any, key) => (result[key] = map[key], result), {});
+    const reordered = await loadDocument(document);
+    reordered.paths["/pets/{id}"] = reverse(reordered.paths["/pets/{id}"]);
+    reordered.paths = reverse(reordered.paths);
+    reordered.components = reverse(reordered.components);
+    reordered.components.schemas = reverse(reordered.components.schemas);
+    strictEqual(JSON.stringify(emitDocument(run(reordered).model)), JSON.stringify(emitted));
+  });
+
+  it("emits documents that parse into an equal model", async () => {
+    const original = await runDocument(document);
+    const emitted = emitDocument(original.model);
+    const reparsed = run(await loadDocument(JSON.stringify(emitted)));
+    deepStrictEqual(reparsed.diagnostics, []);
+    // the hoisted array schema is named in the emitted document only
+    const fields = reparsed.model.components.schemas["Schema"];
+    delete reparsed.model.components.schemas["Schema"];
+    fields.name = undefined;
+    deepStrictEqual(reparsed.model, original.model);
+    strictEqual(JSON.stringify(emitDocument(reparsed.model)), JSON.stringify(emitted));
+  });
+});
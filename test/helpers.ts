@@ -0,0 +1,61 @@
+import { ok, strictEqual } from "assert";
+import { resolve as resolvePath } from "path";
+import { loadYaml } from "../diagnostics";
+import { ReadUri } from "../index";
+import { resolve } from "../object-resolver";
+import { ModelerResult, run } from "../modeler";
+
+/**
+ * Parses and resolves given document, written as YAML (or JSON).
+ */
+export async function loadDocument(text: string): Promise<any> {
+  const document = loadYaml(text);
+  await resolve(document);
+  return document;
+}
+
+/**
+ * Builds the model of given document, written as YAML (or JSON).
+ */
+export async function runDocument(text: string): Promise<ModelerResult> {
+  return run(await loadDocument(text));
+}
+
+/**
+ * URI of given file of the `fixtures` directory.
+ */
+export function getFixtureUri(file: string): string {
+  return "file://" + encodeURI(resolvePath(__dirname, "fixtures", file).replace(/\\/g, "/").replace(/^(?!\/)/, "/"));
+}
+
+/**
+ * Loads and resolves given file of the `fixtures` directory.
+ */
+export async function loadFixture(file: string): Promise<any> {
+  const documentUri = getFixtureUri(file);
+  const document = loadYaml(await ReadUri(documentUri));
+  await resolve(document, documentUri);
+  return document;
+}
+
+/**
+ * Builds the model of given file of the `fixtures` directory.
+ */
+export async function runFixture(file: string): Promise<ModelerResult> {
+  return run(await loadFixture(file), getFixtureUri(file));
+}
+
+/**
+ * Asserts that given promise is rejected with given message (or one matching given pattern).
+ */
+export async function assertRejects(promise: Promise<any>, expected: string | RegExp): Promise<void> {
+  let error: Error | undefined;
+  try {
+    await promise;
+  } catch (e) {
+    error = e;
+  }
+  if (!error) throw new Error("expected a rejection");
+  if (typeof expected === "string") strictEqual(error.message, expected);
+  else ok(expected.test(error.message), `unexpected message '${error.message}'`);
+}
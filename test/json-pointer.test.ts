@@ -0,0 +1,44 @@
+import { deepStrictEqual, strictEqual, throws } from "assert";
+import { escapePointerPart, formatPointer, getByPointer, parsePointer, parsePointerFragment, setByPointer } from "../json-pointer";
+
+describe("json-pointer", () => {
+  it("escapes '~' and '/' as '~0' and '~1'", () => {
+    strictEqual(escapePointerPart("a/b~c"), "a~1b~0c");
+    strictEqual(formatPointer(["paths", "/pets/{id}", 0]), "/paths/~1pets~1{id}/0");
+  });
+
+  it("unescapes '~1' before '~0'", () => {
+    deepStrictEqual(parsePointer("/paths/~1pets~1{id}/~01"), ["paths", "/pets/{id}", "~1"]);
+    deepStrictEqual(parsePointer(""), []);
+    deepStrictEqual(parsePointer("/"), [""]);
+  });
+
+  it("rejects invalid pointers and escapes", () => {
+    throws(() => parsePointer("paths"), /expected leading '\/'/);
+    throws(() => parsePointer("/a~2b"), /invalid escape sequence/);
+    throws(() => parsePointer("/a~"), /invalid escape sequence/);
+  });
+
+  it("percent-decodes URI fragments before unescaping", () => {
+    deepStrictEqual(parsePointerFragment("/paths/~1pets%7Bid%7D/a%20b/%25"), ["paths", "/pets{id}", "a b", "%"]);
+    throws(() => parsePointerFragment("/%E0%A4%A"), /invalid percent-encoding/);
+  });
+
+  it("looks up and replaces nodes of objects and arrays", () => {
+    const document = { a: [{ "b/c": 1 }], "": { "~": 2 } };
+    strictEqual(getByPointer(document, parsePointer("/a/0/b~1c")), 1);
+    strictEqual(getByPointer(document, parsePointer("//~0")), 2);
+    strictEqual(getByPointer(document, []), document);
+    setByPointer(document, ["a", "0"], 3);
+    deepStrictEqual(document.a, [3]);
+  });
+
+  it("only finds own properties and valid array indices", () => {
+    const document = { a: [1, 2] };
+    throws(() => getByPointer(document, ["a", "2"]), /'2' not found at '\/a'/);
+    throws(() => getByPointer(document, ["a", "01"]), /'01' not found at '\/a'/);
+    throws(() => getByPointer(document, ["a", "length"]), /'length' not found at '\/a'/);
+    throws(() => getByPointer(document, ["constructor"]), /'constructor' not found at ''/);
+    throws(() => setByPointer(document, [], 1), /cannot replace the document itself/);
+  });
+});
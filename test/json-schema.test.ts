@@ -0,0 +1,143 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { exportSchema, exportSchemas } from "../json-schema";
+import { Schema } from "../modeler";
+import { runDocument } from "./helpers";
+
+async function getSchemas(text: string): Promise<{ [name: string]: Schema }> {
+  const result = await runDocument(text);
+  deepStrictEqual(result.diagnostics, []);
+  return result.model.components.schemas;
+}
+
+const document = `
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths: {}
+components:
+  schemas:
+    Tag: { type: string, enum: [dog, cat] }
+    Pet:
+      type: object
+      required: [id, name, password]
+      properties:
+        id: { type: integer, readOnly: true }
+        name: { type: string }
+        password: { type: string, writeOnly: true }
+        tags: { type: array, items: { $ref: "#/components/schemas/Tag" } }
+        owner: { $ref: "#/components/schemas/Owner" }
+    Owner:
+      type: object
+      properties:
+        name: { type: string }
+        pets: { type: array, items: { $ref: "#/components/schemas/Pet" } }
+        favoriteTag: { $ref: "#/components/schemas/Tag" }
+`;
+
+const tag = { type: "string", enum: ["dog", "cat"] };
+
+describe("json-schema", () => {
+  it("defines named schemas under $defs", async () => {
+    deepStrictEqual(exportSchemas(await getSchemas(document)), {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $defs: {
+        Tag: tag,
+        Pet: {
+          type: "object",
+          properties: {
+            id: { type: "integer", readOnly: true },
+            name: { type: "string" },
+            password: { type: "string", writeOnly: true },
+            tags: { type: "array", items: { $ref: "#/$defs/Tag" } },
+            owner: { $ref: "#/$defs/Owner" }
+          },
+          required: ["id", "name", "password"]
+        },
+        Owner: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            pets: { type: "array", items: { $ref: "#/$defs/Pet" } },
+            favoriteTag: { $ref: "#/$defs/Tag" }
+          }
+        }
+      }
+    });
+  });
+
+  it("defines named schemas under definitions for draft-07", async () => {
+    const result = exportSchemas(await getSchemas(document), { draft: "draft-07" });
+    strictEqual(result.$schema, "http://json-schema.org/draft-07/schema#");
+    deepStrictEqual(Object.keys(result), ["$schema", "definitions"]);
+    deepStrictEqual(result.definitions.Owner, {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        pets: { type: "array", items: { $ref: "#/definitions/Pet" } },
+        favoriteTag: { $ref: "#/definitions/Tag" }
+      }
+    });
+  });
+
+  it("refers to the document itself for cycles through the root, and hoists shared schemas", async () => {
+    deepStrictEqual(exportSchema((await getSchemas(document))["Pet"]), {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        id: { type: "integer", readOnly: true },
+        name: { type: "string" },
+        password: { type: "string", writeOnly: true },
+        tags: { type: "array", items: { $ref: "#/$defs/Tag" } },
+        owner: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            pets: { type: "array", items: { $ref: "#" } },
+            favoriteTag: { $ref: "#/$defs/Tag" }
+          }
+        }
+      },
+      required: ["id", "name", "password"],
+      $defs: { Tag: tag }
+    });
+  });
+
+  it("drops read-only properties from requests and write-only ones from responses", async () => {
+    const pet = (await getSchemas(document))["Pet"];
+    const request = exportSchema(pet, { direction: "request" });
+    deepStrictEqual(Object.keys(request.properties), ["name", "password", "tags", "owner"]);
+    deepStrictEqual(request.required, ["name", "password"]);
+    const response = exportSchema(pet, { direction: "response" });
+    deepStrictEqual(Object.keys(response.properties), ["id", "name", "tags", "owner"]);
+    deepStrictEqual(response.required, ["id", "name"]);
+  });
+
+  it("allows null next to enums, types and compositions", async () => {
+    const schemas = await getSchemas(`
+openapi: 3.0.3
+info: { title: shapes, version: "1.0" }
+paths: {}
+components:
+  schemas:
+    Size: { type: string, enum: [small, large], nullable: true }
+    Shape:
+      nullable: true
+      oneOf:
+        - { type: object, properties: { radius: { type: number } } }
+        - { type: object, properties: { side: { type: number } } }
+`);
+    deepStrictEqual(exportSchemas(schemas).$defs, {
+      Size: { type: ["string", "null"], enum: ["small", "large", null] },
+      Shape: {
+        anyOf: [
+          { type: "null" },
+          {
+            oneOf: [
+              { type: "object", properties: { radius: { type: "number" } } },
+              { type: "object", properties: { side: { type: "number" } } }
+            ]
+          }
+        ]
+      }
+    });
+  });
+});
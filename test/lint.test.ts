@@ -0,0 +1,187 @@
+import { deepStrictEqual, strictEqual, throws } from "assert";
+import { lint, LintConfig, loadLintConfig } from "../lint";
+import { run } from "../modeler";
+import { getFixtureUri, loadDocument, loadFixture } from "./helpers";
+
+async function lintDocument(text: string, config?: LintConfig): Promise<string[]> {
+  const document = await loadDocument(text);
+  return lint(document, run(document).model, config).map(result => `${result.severity} ${result.rule} ${result.pointer}: ${result.message}`);
+}
+
+// satisfies every built-in rule
+const clean = `
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+tags: [{ name: pets }]
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      description: Gets a pet.
+      tags: [pets]
+      parameters:
+        - { name: petId, in: path, required: true, description: the pet, schema: { type: string } }
+      responses:
+        "200":
+          description: the pet
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+        "404": { description: unknown pet }
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        name: { type: string }
+        birthDate: { type: string, format: date }
+`;
+
+describe("lint", () => {
+  describe("built-in rules", () => {
+    it("accepts documents following them", async () => {
+      deepStrictEqual(await lintDocument(clean), []);
+    });
+
+    it("checks operations", async () => {
+      deepStrictEqual(await lintDocument(`
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths:
+  /pets/{petId}:
+    get:
+      tags: [pets]
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: string } }
+      responses:
+        "200": { description: the pet }
+`), [
+        "error operation-id /paths/~1pets~1{petId}/get: operation 'GET /pets/{petId}' has no 'operationId'",
+        "warning operation-tags-declared /paths/~1pets~1{petId}/get/tags: tag 'pets' of operation 'GET /pets/{petId}' is not declared",
+        "warning operation-description /paths/~1pets~1{petId}/get: operation 'GET /pets/{petId}' has no description",
+        "warning operation-description /paths/~1pets~1{petId}/get/parameters: path parameter 'petId' of operation 'GET /pets/{petId}' has no description",
+        "warning response-4xx /paths/~1pets~1{petId}/get/responses: operation 'GET /pets/{petId}' documents no 4XX response"
+      ]);
+    });
+
+    it("checks property names of all schemas, but not of examples", async () => {
+      deepStrictEqual(await lintDocument(clean.replace("birthDate:", "birth_date:").replace("Pet:\n", `Pet:
+      example: { Not_Checked: 1 }
+`)), [
+        "warning property-camel-case /components/schemas/Pet/properties/birth_date: property 'birth_date' is not camelCase"
+      ]);
+    });
+
+    it("tells inline response schemas from those referenced from the components", async () => {
+      deepStrictEqual(await lintDocument(`
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    get:
+      operationId: getPets
+      description: Gets the pets.
+      responses:
+        "200":
+          description: the pets
+          content:
+            application/json:
+              schema: { type: object, properties: { total: { type: integer } } }
+        default:
+          description: the error
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Error" }
+  /pets/count:
+    get:
+      operationId: countPets
+      description: Counts the pets.
+      responses:
+        "200":
+          description: the count
+          content:
+            application/json:
+              schema: { $ref: "#/paths/~1pets/get/responses/200/content/application~1json/schema" }
+        "400":
+          description: the error
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Error/properties/detail" }
+components:
+  schemas:
+    Error:
+      type: object
+      properties:
+        message: { type: string }
+        detail: { type: object, properties: { reason: { type: string } } }
+`, { rules: { "response-4xx": "off" } }), [
+        "warning no-inline-response-schema /paths/~1pets/get/responses/200/content/application~1json/schema: response '200' (application/json) of operation 'GET /pets' has an inline object schema",
+        "warning no-inline-response-schema /paths/~1pets/get/responses/200/content/application~1json/schema: response '200' (application/json) of operation 'GET /pets/count' has an inline object schema",
+        "warning no-inline-response-schema /components/schemas/Error/properties/detail: response '400' (application/json) of operation 'GET /pets/count' has an inline object schema"
+      ]);
+    });
+
+    it("reports schemas of other documents as inline, even where they are named", async () => {
+      const documentUri = getFixtureUri("naming/api.yaml");
+      const document = await loadFixture("naming/api.yaml");
+      const model = run(document, documentUri).model;
+      deepStrictEqual(lint(document, model, undefined, undefined, documentUri)
+        .filter(result => result.rule === "no-inline-response-schema")
+        .map(result => `${(result.documentUri || "").slice(getFixtureUri("naming").length)}#${result.pointer}: ${result.message}`), [
+        "/schemas.yaml#/Owner: response '200' (application/json) of operation 'GET /owners' has an inline object schema",
+        "/api.yaml#/paths/~1names/get/responses/200/content/application~1json/schema: response '200' (application/json) of operation 'GET /names' has an inline object schema"
+      ]);
+      strictEqual(model.operations[1].responses[0].response.content["application/json"].schema!.name, "Owner");
+    });
+
+    it("locates results in Swagger 2.0 documents", async () => {
+      deepStrictEqual(await lintDocument(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    get:
+      operationId: getPets
+      description: Gets the pets.
+      responses:
+        "200":
+          description: the pets
+          schema: { type: object, properties: { total_count: { type: integer } } }
+        "400":
+          description: the error
+          schema: { $ref: "#/definitions/Error" }
+definitions:
+  Error:
+    type: object
+    properties:
+      message: { type: string }
+`), [
+        "warning property-camel-case /paths/~1pets/get/responses/200/schema/properties/total_count: property 'total_count' is not camelCase",
+        "warning no-inline-response-schema /paths/~1pets/get/responses/200/schema: response '200' (application/json) of operation 'GET /pets' has an inline object schema"
+      ]);
+    });
+  });
+
+  describe("configuration", () => {
+    it("overrides the severity of rules, or turns them off", async () => {
+      const text = clean.replace("      operationId: getPet\n", "").replace(`        "404": { description: unknown pet }\n`, "");
+      deepStrictEqual(await lintDocument(text, loadLintConfig("rules: { operation-id: warning, response-4xx: off }")), [
+        "warning operation-id /paths/~1pets~1{petId}/get: operation 'GET /pets/{petId}' has no 'operationId'"
+      ]);
+      deepStrictEqual(await lintDocument(text, loadLintConfig(`{ "rules": { "response-4xx": "error" } }`)), [
+        "error operation-id /paths/~1pets~1{petId}/get: operation 'GET /pets/{petId}' has no 'operationId'",
+        "error response-4xx /paths/~1pets~1{petId}/get/responses: operation 'GET /pets/{petId}' documents no 4XX response"
+      ]);
+    });
+
+    it("configures nothing when empty", () => {
+      deepStrictEqual(loadLintConfig(""), { rules: {} });
+    });
+
+    it("rejects unknown rules and severities", () => {
+      throws(() => loadLintConfig("rules: [operation-id]"), /^Error: expected 'rules' to map rule names to severities$/);
+      throws(() => loadLintConfig("rules: { operation-ids: off }"), /^Error: unknown lint rule 'operation-ids' \(expected 'operation-id', 'operation-tags-declared', /);
+      throws(() => loadLintConfig("rules: { operation-id: info }"), /^Error: invalid severity 'info' of lint rule 'operation-id' \(expected 'error', 'warning' or 'off'\)$/);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { request as httpRequest, Server } from "http";
+import { createMockServer } from "../mock-server";
+import { runDocument } from "./helpers";
+
+interface MockResponse {
+  status: number;
+  headers: { [name: string]: string | string[] | undefined };
+  body: string;
+}
+
+const document = `
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    get:
+      parameters:
+        - { name: limit, in: query, schema: { type: integer, minimum: 1 } }
+      responses:
+        "200":
+          description: pets
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: "#/components/schemas/Pet" } }
+              examples:
+                one: { value: [{ name: Rex }] }
+                two: { value: [{ name: Rex }, { name: Tom }] }
+            text/csv:
+              example: "name\\nRex"
+        "404":
+          description: no pets
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Error" }
+  /pets/{petId}:
+    get:
+      parameters:
+        - { name: petId, in: path, required: true, schema: { type: integer } }
+      responses:
+        "200":
+          description: the pet
+          headers:
+            X-Rate-Limit: { schema: { type: integer, example: 100 } }
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [name, tag]
+      properties:
+        name: { type: string, example: Rex }
+        tag: { type: string, enum: [dog, cat] }
+    Error:
+      type: object
+      required: [message]
+      properties:
+        message: { type: string, example: no pets }
+`;
+
+describe("mock-server", () => {
+  let server: Server;
+  let port: number;
+
+  before(async () => {
+    server = createMockServer((await runDocument(document)).model);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    port = server.address().port;
+  });
+
+  after(done => {
+    server.close(done);
+  });
+
+  function request(method: string, path: string, headers: { [name: string]: string } = {}): Promise<MockResponse> {
+    return new Promise<MockResponse>((resolve, reject) => {
+      const req = httpRequest({ host: "127.0.0.1", port: port, method: method, path: path, headers: headers }, res => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (data: string) => body += data);
+        res.on("end", () => resolve({ status: res.statusCode || 0, headers: res.headers, body: body }));
+        res.on("error", reject);
+      });
+      req.on("error", reject);
+      req.end();
+    });
+  }
+
+  describe("routing", () => {
+    it("responds with 404 to unknown paths", async () => {
+      const response = await request("GET", "/owners");
+      strictEqual(response.status, 404);
+      deepStrictEqual(JSON.parse(response.body), { message: "no operation matches '/owners'" });
+    });
+
+    it("responds with 405 to undeclared methods, listing the allowed ones", async () => {
+      const response = await request("DELETE", "/pets");
+      strictEqual(response.status, 405);
+      strictEqual(response.headers["allow"], "GET");
+    });
+
+    it("responds with 400 to invalid requests", async () => {
+      const response = await request("GET", "/pets?limit=0");
+      strictEqual(response.status, 400);
+      strictEqual(JSON.parse(response.body).errors.length, 1);
+    });
+  });
+
+  describe("responses", () => {
+    it("responds with the first example of the first success response", async () => {
+      const response = await request("GET", "/pets");
+      strictEqual(response.status, 200);
+      strictEqual(response.headers["content-type"], "application/json");
+      deepStrictEqual(JSON.parse(response.body), [{ name: "Rex" }]);
+    });
+
+    it("responds with the example requested via X-Mock-Example", async () => {
+      const response = await request("GET", "/pets", { "X-Mock-Example": "two" });
+      deepStrictEqual(JSON.parse(response.body), [{ name: "Rex" }, { name: "Tom" }]);
+      const unknown = await request("GET", "/pets", { "X-Mock-Example": "three" });
+      strictEqual(unknown.status, 400);
+      deepStrictEqual(JSON.parse(unknown.body), { message: "unknown example 'three' (expected 'one', 'two')" });
+    });
+
+    it("responds with the status requested via X-Mock-Status", async () => {
+      const response = await request("GET", "/pets", { "X-Mock-Status": "404" });
+      strictEqual(response.status, 404);
+      deepStrictEqual(JSON.parse(response.body), { message: "no pets" });
+      strictEqual((await request("GET", "/pets", { "X-Mock-Status": "503" })).status, 500);
+      strictEqual((await request("GET", "/pets", { "X-Mock-Status": "none" })).status, 400);
+    });
+
+    it("generates samples of schemas without examples, headers included", async () => {
+      const response = await request("GET", "/pets/1");
+      strictEqual(response.status, 200);
+      strictEqual(response.headers["x-rate-limit"], "100");
+      deepStrictEqual(JSON.parse(response.body), { name: "Rex", tag: "dog" });
+    });
+  });
+
+  describe("content negotiation", () => {
+    it("responds with the most preferred acceptable media type", async () => {
+      const response = await request("GET", "/pets", { "Accept": "application/json;q=0.5, text/*" });
+      strictEqual(response.headers["content-type"], "text/csv");
+      strictEqual(response.body, "name\nRex");
+    });
+
+    it("responds with 406 if no declared media type is acceptable", async () => {
+      const response = await request("GET", "/pets", { "Accept": "application/xml, text/*;q=0" });
+      strictEqual(response.status, 406);
+      deepStrictEqual(JSON.parse(response.body), { message: "none of 'application/json', 'text/csv' is acceptable" });
+    });
+  });
+});
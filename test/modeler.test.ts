@@ -0,0 +1,136 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { emitDocument } from "../emitter";
+import { Schema } from "../modeler";
+import { runDocument, runFixture } from "./helpers";
+
+function getResponseSchema(schema: Schema | undefined): Schema {
+  if (!schema) throw new Error("expected a schema");
+  return schema;
+}
+
+describe("modeler", () => {
+  describe("schemas", () => {
+    it("parses cycles into cyclic graphs of shared instances", async () => {
+      const result = await runDocument(`
+openapi: 3.0.3
+info: { title: tree, version: "1.0" }
+paths:
+  /tree:
+    get:
+      responses:
+        "200":
+          description: tree
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/TreeNode" }
+components:
+  schemas:
+    TreeNode:
+      type: object
+      properties:
+        value: { type: string }
+        parent: { $ref: "#/components/schemas/TreeNode" }
+        children: { type: array, items: { $ref: "#/components/schemas/TreeNode" } }
+        forest: { $ref: "#/components/schemas/Forest" }
+    Forest:
+      type: array
+      items: { $ref: "#/components/schemas/TreeNode" }
+`);
+      deepStrictEqual(result.diagnostics, []);
+      const treeNode = result.model.components.schemas["TreeNode"];
+      const forest = result.model.components.schemas["Forest"];
+      strictEqual(treeNode.name, "TreeNode");
+      strictEqual(forest.name, "Forest");
+      if (treeNode.type !== "object" || forest.type !== "array") throw new Error("unexpected types");
+      strictEqual(treeNode.properties["parent"], treeNode);
+      const children = treeNode.properties["children"];
+      strictEqual(children.type === "array" && children.items, treeNode);
+      strictEqual(treeNode.properties["forest"], forest);
+      strictEqual(forest.items, treeNode);
+      strictEqual(getResponseSchema(result.model.operations[0].responses[0].response.content["application/json"].schema), treeNode);
+    });
+  });
+
+  describe("schema names", () => {
+    it("names schemas after components, top-level keys of external documents and whole external documents", async () => {
+      const result = await runFixture("naming/api.yaml");
+      deepStrictEqual(result.diagnostics, []);
+      const schemaOf = (index: number) => getResponseSchema(result.model.operations[index].responses[0].response.content["application/json"].schema);
+      const pets = schemaOf(0);
+      strictEqual(pets.type === "array" && pets.items.name, "Pet");
+      strictEqual(schemaOf(1).name, "Owner");
+      deepStrictEqual(Object.keys(result.model.components.schemas), ["Tag"]);
+    });
+
+    it("leaves schemas anonymous that are referenced anywhere else", async () => {
+      const result = await runFixture("naming/api.yaml");
+      const names = getResponseSchema(result.model.operations[2].responses[0].response.content["application/json"].schema);
+      if (names.type !== "object") throw new Error("expected an object schema");
+      strictEqual(names.properties["pet"].name, undefined);
+      strictEqual(names.properties["pet"], result.model.components.schemas["Tag"].type === "object" && result.model.components.schemas["Tag"].properties["name"]);
+      strictEqual(names.properties["street"].name, undefined);
+      // shared anonymous schemas are hoisted under a generic name
+      const components = emitDocument(result.model).components || {};
+      deepStrictEqual(Object.keys(components.schemas || {}), ["Schema", "Schema2", "Tag"]);
+    });
+
+    it("names Swagger 2.0 schemas after their definitions", async () => {
+      const result = await runDocument(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    get:
+      responses:
+        "200":
+          description: pets
+          schema: { type: array, items: { $ref: "#/definitions/Pet" } }
+  /names:
+    get:
+      responses:
+        "200":
+          description: name
+          schema: { $ref: "#/definitions/Pet/properties/name" }
+definitions:
+  Pet:
+    type: object
+    properties:
+      name: { type: string }
+`);
+      deepStrictEqual(result.diagnostics, []);
+      const pets = getResponseSchema(result.model.operations[0].responses[0].response.content["application/json"].schema);
+      strictEqual(pets.type === "array" && pets.items.name, "Pet");
+      strictEqual(getResponseSchema(result.model.operations[1].responses[0].response.content["application/json"].schema).name, undefined);
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("reports and skips invalid servers, parameters and request bodies", async () => {
+      const result = await runDocument(`
+openapi: 3.0.3
+info: { title: invalid, version: "1.0" }
+servers:
+  - description: no url
+paths:
+  /pets:
+    servers: [{ description: no url either }]
+    post:
+      parameters:
+        - { name: q, in: query }
+        - { name: limit, in: query, schema: { type: integer } }
+      requestBody: { description: no content }
+      responses: { "200": { description: ok } }
+`);
+      deepStrictEqual(result.diagnostics.map(diagnostic => `${diagnostic.line} ${diagnostic.code} ${diagnostic.pointer}: ${diagnostic.message}`), [
+        "5 missing-server-url /servers/0: expected 'url' on server",
+        "8 missing-server-url /paths/~1pets/servers/0: expected 'url' on server",
+        "11 missing-content /paths/~1pets/post/parameters/0: expected 'schema' or 'content' on parameter 'q'",
+        "13 missing-content /paths/~1pets/post/requestBody: expected 'content' on request body"
+      ]);
+      const method = result.model.operations[0];
+      deepStrictEqual(method.servers.map(server => server.url), ["/"]);
+      deepStrictEqual(method.parameters.map(parameter => parameter.name), ["limit"]);
+      strictEqual(method.parameterBody, undefined);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { loadYaml } from "../diagnostics";
+import { resolve } from "../object-resolver";
+import { assertRejects, getFixtureUri, loadFixture, runFixture } from "./helpers";
+
+async function resolveYaml(text: string): Promise<any> {
+  const document = loadYaml(text);
+  await resolve(document);
+  return document;
+}
+
+describe("object-resolver", () => {
+  describe("local references", () => {
+    it("replaces references by their targets, tagged with their location", async () => {
+      const document = await resolveYaml(`
+paths:
+  /pets:
+    get:
+      parameters: [{ $ref: "#/components/parameters/limit" }]
+components:
+  parameters:
+    limit: { name: limit, in: query, schema: { type: integer } }
+`);
+      const limit = document.components.parameters.limit;
+      strictEqual(document.paths["/pets"].get.parameters[0], limit);
+      deepStrictEqual(limit.$path, { documentUri: "", pointer: "/components/parameters/limit" });
+    });
+
+    it("follows escaped and percent-encoded pointers", async () => {
+      const document = await resolveYaml(`
+a: { $ref: "#/paths/~1pets~1%7Bid%7D/x~0y/a%20b" }
+paths:
+  /pets/{id}:
+    x~y:
+      a b: { value: 1 }
+`);
+      strictEqual(document.a, document.paths["/pets/{id}"]["x~y"]["a b"]);
+      deepStrictEqual(document.a.$path, { documentUri: "", pointer: "/paths/~1pets~1{id}/x~0y/a b" });
+    });
+
+    it("follows chains of references to their final target", async () => {
+      const document = await resolveYaml(`
+a: { $ref: "#/b" }
+b: { $ref: "#/c" }
+c: { value: 1 }
+`);
+      strictEqual(document.a, document.c);
+      strictEqual(document.b, document.c);
+      deepStrictEqual(document.a.$path, { documentUri: "", pointer: "/c" });
+    });
+
+    it("keeps cycles through objects as cyclic graphs", async () => {
+      const document = await resolveYaml(`
+Node:
+  properties:
+    next: { $ref: "#/Node" }
+`);
+      strictEqual(document.Node.properties.next, document.Node);
+    });
+
+    it("reports dangling references", async () => {
+      await assertRejects(resolveYaml(`
+a: { $ref: "#/components/schemas/Missing" }
+components: { schemas: {} }
+`), "cannot resolve reference '#/components/schemas/Missing' at '#/a' ('Missing' not found at '/components/schemas')");
+    });
+
+    it("reports circular reference chains", async () => {
+      await assertRejects(resolveYaml(`
+a: { $ref: "#/b" }
+b: { $ref: "#/c" }
+c: { $ref: "#/b" }
+`), "circular reference chain #/a -> #/b -> #/c -> #/b");
+    });
+
+    it("looks up keys literally rather than evaluating them", async () => {
+      const document = await resolveYaml(`
+a: { $ref: "#/components/schemas/%5D;%20process.exit(1);%20~1~1" }
+b: { $ref: "#/components/schemas/%5D;%20global.evaluated%20=%20true;%20~1~1" }
+components:
+  schemas:
+    "]; process.exit(1); //": { type: string }
+    "]; global.evaluated = true; //": { type: integer }
+`);
+      strictEqual(document.a, document.components.schemas["]; process.exit(1); //"]);
+      strictEqual(document.b, document.components.schemas["]; global.evaluated = true; //"]);
+      strictEqual((global as any).evaluated, undefined);
+      await assertRejects(resolveYaml(`a: { $ref: "#/constructor/constructor" }`), /'constructor' not found at ''/);
+    });
+  });
+
+  describe("references to other documents", () => {
+    it("resolves relative files against the document they appear in, tagging nodes with their provenance", async () => {
+      const document = await loadFixture("split/api.yaml");
+      const pathItem = document.paths["/pets"];
+      deepStrictEqual(pathItem.$path, { documentUri: getFixtureUri("split/paths/pets.yaml"), pointer: "/pets" });
+      const pet = pathItem.get.responses["200"].content["application/json"].schema.items;
+      deepStrictEqual(pet.$path, { documentUri: getFixtureUri("split/schemas/Pet.yaml"), pointer: "" });
+      const owner = document.components.schemas.Owner;
+      strictEqual(pet.properties.owner, owner);
+      deepStrictEqual(owner.$path, { documentUri: getFixtureUri("split/api.yaml"), pointer: "/components/schemas/Owner" });
+      // each document is loaded once, so the cycle closes
+      strictEqual(owner.properties.pets.items, pet);
+    });
+
+    it("models split documents like single ones", async () => {
+      const result = await runFixture("split/api.yaml");
+      deepStrictEqual(result.diagnostics, []);
+      const owner = result.model.components.schemas["Owner"];
+      const pets = owner.type === "object" && owner.properties["pets"];
+      const pet = pets && pets.type === "array" ? pets.items : undefined;
+      strictEqual(pet && pet.name, "Pet");
+      strictEqual(pet && pet.type === "object" && pet.properties["owner"], owner);
+    });
+
+    it("reports missing documents", async () => {
+      const documentUri = getFixtureUri("split/api.yaml");
+      await assertRejects(resolve(loadYaml(`a: { $ref: "./missing.yaml" }`), documentUri), /split\/missing\.yaml/);
+    });
+
+    it("requires an absolute URI of the referring document", async () => {
+      await assertRejects(resolveYaml(`a: { $ref: "./Pet.yaml" }`), "cannot resolve reference './Pet.yaml' without an absolute document URI");
+    });
+  });
+});
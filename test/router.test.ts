@@ -0,0 +1,106 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { formatPath, run } from "../modeler";
+import { createRouter, RouteResult, Router } from "../router";
+import { loadDocument } from "./helpers";
+
+const document = `
+openapi: 3.0.3
+info: { title: files, version: "1.0" }
+servers:
+  - url: https://{region}.example.com/{version}
+    variables:
+      region: { default: eu }
+      version: { default: v1 }
+paths:
+  /files/{name}:
+    parameters: [{ $ref: "#/components/parameters/name" }]
+    get: { responses: { "200": { description: file } } }
+    delete: { responses: { "204": { description: deleted } } }
+  /files/{name}.json:
+    parameters: [{ $ref: "#/components/parameters/name" }]
+    get: { responses: { "200": { description: JSON file } } }
+  /files/latest:
+    get: { responses: { "200": { description: latest file } } }
+  /files/{name}/versions/{id}:
+    parameters:
+      - { $ref: "#/components/parameters/name" }
+      - { name: id, in: path, required: true, schema: { type: integer } }
+    get: { responses: { "200": { description: version } } }
+  /files/latest/meta:
+    get: { responses: { "200": { description: meta } } }
+components:
+  parameters:
+    name: { name: name, in: path, required: true, schema: { type: string } }
+`;
+
+function describeRoute(result: RouteResult): string {
+  switch (result.type) {
+    case "match": return `${result.method.httpMethod.toUpperCase()} ${formatPath(result.method.urlSuffix)} ${JSON.stringify(result.pathValues)} ${JSON.stringify(result.serverValues)}`;
+    case "method-not-allowed": return `not allowed, allowed: ${result.allowedMethods.join(", ")}`;
+    case "not-found": return "not found";
+  }
+}
+
+describe("router", () => {
+  let router: Router;
+  before(async () => {
+    const definition = await loadDocument(document);
+    const result = run(definition);
+    deepStrictEqual(result.diagnostics, []);
+    router = createRouter(result.model, definition);
+  });
+
+  it("reports no diagnostics for distinct templates", () => {
+    deepStrictEqual(router.diagnostics, []);
+  });
+
+  it("prefers constant segments over templated ones", () => {
+    strictEqual(describeRoute(router.match("GET", "/v1/files/latest")), `GET /files/latest {} {"version":"v1"}`);
+    strictEqual(describeRoute(router.match("GET", "/v1/files/report")), `GET /files/{name} {"name":"report"} {"version":"v1"}`);
+  });
+
+  it("prefers templated segments with more literal characters", () => {
+    strictEqual(describeRoute(router.match("GET", "/v1/files/report.json")), `GET /files/{name}.json {"name":"report"} {"version":"v1"}`);
+  });
+
+  it("backtracks to templated segments if constant ones lead nowhere", () => {
+    strictEqual(describeRoute(router.match("GET", "/v1/files/latest/versions/3")), `GET /files/{name}/versions/{id} {"name":"latest","id":"3"} {"version":"v1"}`);
+    strictEqual(describeRoute(router.match("GET", "/v1/files/latest/meta")), `GET /files/latest/meta {} {"version":"v1"}`);
+  });
+
+  it("returns values raw and ignores trailing slashes and query strings", () => {
+    strictEqual(describeRoute(router.match("get", "https://us.example.com/v2/files/a%20b/?x=1")), `GET /files/{name} {"name":"a%20b"} {"version":"v2"}`);
+  });
+
+  it("distinguishes unknown paths from unsupported methods", () => {
+    strictEqual(describeRoute(router.match("GET", "/v1/folders")), "not found");
+    strictEqual(describeRoute(router.match("GET", "/files/latest")), "not found");
+    strictEqual(describeRoute(router.match("PUT", "/v1/files/report")), "not allowed, allowed: get, delete");
+  });
+
+  it("reports ambiguous templates whatever their methods, located at the path items", async () => {
+    const text = `openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+paths:
+  /pets/{id}:
+    parameters: [{ name: id, in: path, required: true, schema: { type: integer } }]
+    get: { responses: { "200": { description: pet } } }
+  /pets/{name}:
+    parameters: [{ name: name, in: path, required: true, schema: { type: string } }]
+    delete: { responses: { "204": { description: deleted } } }
+  /pets/{petId}:
+    parameters: [{ name: petId, in: path, required: true, schema: { type: integer } }]
+    get: { responses: { "200": { description: pet } } }
+`;
+    const definition = await loadDocument(text);
+    const result = run(definition);
+    deepStrictEqual(result.diagnostics, []);
+    const diagnostics = createRouter(result.model, definition, "file:///pets.yaml").diagnostics;
+    deepStrictEqual(diagnostics.map(diagnostic => `${diagnostic.line}:${diagnostic.column} ${diagnostic.code}: ${diagnostic.message}`), [
+      "7:16 ambiguous-path: 'DELETE /pets/{name}' is ambiguous with 'GET /pets/{id}'",
+      "10:17 ambiguous-path: 'GET /pets/{petId}' is ambiguous with 'GET /pets/{id}'",
+      "10:17 ambiguous-path: 'GET /pets/{petId}' is ambiguous with 'DELETE /pets/{name}'"
+    ]);
+    strictEqual(diagnostics[0].documentUri, "file:///pets.yaml");
+  });
+});
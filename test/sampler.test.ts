@@ -0,0 +1,112 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { Model, Schema } from "../modeler";
+import { generateSample } from "../sampler";
+import { validateSchema } from "../validator";
+import { runDocument } from "./helpers";
+
+const document = `
+openapi: 3.0.3
+info: { title: samples, version: "1.0" }
+paths: {}
+components:
+  schemas:
+    Overlapping:
+      oneOf:
+        - { type: integer, minimum: 0 }
+        - { type: integer, maximum: 10 }
+    BoundedPattern: { type: string, pattern: "^(foo|bar)+baz?$", maxLength: 5 }
+    LongPattern: { type: string, pattern: "^a[bc]*$", minLength: 12 }
+    FixedPattern: { type: string, pattern: "^[A-Z]{2}-\\\\d{4}$" }
+    Formats:
+      type: object
+      required: [date, dateTime, uuid, byte, email]
+      properties:
+        date: { type: string, format: date }
+        dateTime: { type: string, format: date-time }
+        uuid: { type: string, format: uuid }
+        byte: { type: string, format: byte }
+        email: { type: string, format: email }
+    Numbers:
+      type: object
+      required: [exclusive, multiple, int32]
+      properties:
+        exclusive: { type: number, minimum: 0, maximum: 1, exclusiveMinimum: true, exclusiveMaximum: true }
+        multiple: { type: number, minimum: 0.1, maximum: 1, multipleOf: 0.3 }
+        int32: { type: integer, format: int32, minimum: 2147483600 }
+    Tags: { type: array, minItems: 2, maxItems: 4, uniqueItems: true, items: { type: string, enum: [a, b, c, d] } }
+    Tree:
+      type: object
+      required: [value, children]
+      properties:
+        value: { type: string, minLength: 1, maxLength: 3 }
+        children: { type: array, items: { $ref: "#/components/schemas/Tree" } }
+    Pet:
+      type: object
+      required: [id, petType, name]
+      discriminator: { propertyName: petType }
+      properties:
+        id: { type: integer, readOnly: true }
+        petType: { type: string }
+        name: { type: string }
+        password: { type: string, writeOnly: true }
+    Cat:
+      allOf:
+        - { $ref: "#/components/schemas/Pet" }
+        - type: object
+          required: [lives]
+          properties:
+            lives: { type: integer, minimum: 1, maximum: 9 }
+    Impossible: { type: string, pattern: "^abc$", minLength: 5 }
+    Example: { type: string, example: hello, maxLength: 3 }
+`;
+
+describe("sampler", () => {
+  let model: Model;
+  const schema = (name: string): Schema => model.components.schemas[name];
+  before(async () => {
+    const result = await runDocument(document);
+    deepStrictEqual(result.diagnostics, []);
+    model = result.model;
+  });
+
+  for (const name of ["Overlapping", "BoundedPattern", "LongPattern", "FixedPattern", "Formats", "Numbers", "Tags", "Tree", "Cat"]) {
+    it(`generates valid samples of ${name}`, () => {
+      for (let seed = 0; seed < 20; ++seed) {
+        for (const direction of ["request", "response"] as ("request" | "response")[]) {
+          const value = generateSample(schema(name), { seed: seed, direction: direction });
+          deepStrictEqual(validateSchema(schema(name), value, direction), [], `seed ${seed}: ${JSON.stringify(value)}`);
+        }
+      }
+    });
+  }
+
+  it("is deterministic for a given seed", () => {
+    deepStrictEqual(generateSample(schema("Tree"), { seed: 42 }), generateSample(schema("Tree"), { seed: 42 }));
+  });
+
+  it("omits read-only properties in requests and write-only ones in responses", () => {
+    const request = generateSample(schema("Pet"), { direction: "request" });
+    strictEqual("id" in request, false);
+    strictEqual("password" in request, true);
+    const response = generateSample(schema("Pet"), { direction: "response" });
+    strictEqual("id" in response, true);
+    strictEqual("password" in response, false);
+  });
+
+  it("sets the discriminator property", () => {
+    strictEqual(generateSample(schema("Cat")).petType, "Cat");
+  });
+
+  it("generates only required properties if asked to", () => {
+    deepStrictEqual(Object.keys(generateSample(schema("Pet"), { optionalProperties: false })).sort(), ["id", "name", "petType"]);
+  });
+
+  it("uses examples unless asked not to", () => {
+    strictEqual(generateSample(schema("Example")), "hello");
+    strictEqual(generateSample(schema("Example"), { useExamples: false }).length <= 3, true);
+  });
+
+  it("yields undefined if no valid value exists", () => {
+    strictEqual(generateSample(schema("Impossible")), undefined);
+  });
+});
@@ -0,0 +1,101 @@
+import { deepStrictEqual, strictEqual, throws } from "assert";
+import { Parameter } from "../modeler";
+import { deserializeParameter, serializeParameter } from "../serializer";
+import { runDocument } from "./helpers";
+
+type Type = "string" | "array" | "object";
+
+const schemas: { [type: string]: any } = {
+  string: { type: "string" },
+  array: { type: "array", items: { type: "string" } },
+  object: { type: "object", properties: { R: { type: "integer" }, G: { type: "integer" }, B: { type: "integer" } } }
+};
+
+const values: { [type: string]: any } = {
+  string: "blue",
+  array: ["blue", "black", "brown"],
+  object: { R: 100, G: 200, B: 150 }
+};
+
+async function createParameter(location: string, style: string, explode: boolean, type: Type): Promise<Parameter> {
+  const result = await runDocument(JSON.stringify({
+    openapi: "3.0.3",
+    info: { title: "test", version: "1.0" },
+    paths: {
+      [location === "path" ? "/{color}" : "/"]: {
+        get: {
+          parameters: [{ name: "color", in: location, required: location === "path", style: style, explode: explode, schema: schemas[type] }],
+          responses: { "200": { description: "ok" } }
+        }
+      }
+    }
+  }));
+  deepStrictEqual(result.diagnostics, []);
+  return result.model.operations[0].parameters[0];
+}
+
+// see https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#style-examples
+// (label arrays and objects are delimited by ',' unless exploded, as by RFC 6570 and the corrected table of OpenAPI 3.1.1)
+const table: [string, string, boolean, string | undefined, string | undefined, string | undefined, string][] = [
+  // location, style, explode, empty, string, array, object (undefined where the style doesn't apply)
+  ["path", "matrix", false, ";color", ";color=blue", ";color=blue,black,brown", ";color=R,100,G,200,B,150"],
+  ["path", "matrix", true, ";color", ";color=blue", ";color=blue;color=black;color=brown", ";R=100;G=200;B=150"],
+  ["path", "label", false, ".", ".blue", ".blue,black,brown", ".R,100,G,200,B,150"],
+  ["path", "label", true, ".", ".blue", ".blue.black.brown", ".R=100.G=200.B=150"],
+  ["path", "simple", false, "", "blue", "blue,black,brown", "R,100,G,200,B,150"],
+  ["path", "simple", true, "", "blue", "blue,black,brown", "R=100,G=200,B=150"],
+  ["query", "form", false, "color=", "color=blue", "color=blue,black,brown", "color=R,100,G,200,B,150"],
+  ["query", "form", true, "color=", "color=blue", "color=blue&color=black&color=brown", "R=100&G=200&B=150"],
+  ["query", "spaceDelimited", false, undefined, undefined, "color=blue%20black%20brown", "color=R%20100%20G%20200%20B%20150"],
+  ["query", "pipeDelimited", false, undefined, undefined, "color=blue|black|brown", "color=R|100|G|200|B|150"],
+  ["query", "deepObject", true, undefined, undefined, undefined, "color[R]=100&color[G]=200&color[B]=150"]
+];
+
+describe("serializer", () => {
+  for (const row of table) {
+    const [location, style, explode, empty, string, array, object] = row;
+    const expected: { [type: string]: string | undefined } = { string: string, array: array, object: object };
+    describe(`${style}${explode ? " exploded" : ""}`, () => {
+      for (const type of ["string", "array", "object"] as Type[]) {
+        const text = expected[type];
+        if (text === undefined) continue;
+        it(`round-trips ${type === "string" ? "a primitive" : `an ${type}`}`, async () => {
+          const parameter = await createParameter(location, style, explode, type);
+          strictEqual(serializeParameter(parameter, values[type]), text);
+          deepStrictEqual(deserializeParameter(parameter, text), values[type]);
+        });
+      }
+      if (empty !== undefined) {
+        it("serializes an empty value", async () => {
+          strictEqual(serializeParameter(await createParameter(location, style, explode, "string"), ""), empty);
+        });
+      }
+    });
+  }
+
+  it("percent-encodes reserved characters unless allowed", async () => {
+    const parameter = await createParameter("query", "form", true, "string");
+    strictEqual(serializeParameter(parameter, "a/b c"), "color=a%2Fb%20c");
+    strictEqual(serializeParameter(Object.assign({}, parameter, { allowReserved: true }), "a/b c"), "color=a/b%20c");
+  });
+
+  it("leaves header values unencoded", async () => {
+    const parameter = await createParameter("header", "simple", false, "array");
+    strictEqual(serializeParameter(parameter, ["a b", "c/d"]), "a b,c/d");
+  });
+
+  it("separates exploded cookie pairs by '; '", async () => {
+    const parameter = await createParameter("cookie", "form", true, "object");
+    strictEqual(serializeParameter(parameter, values.object), "R=100; G=200; B=150");
+    deepStrictEqual(deserializeParameter(parameter, "R=100; G=200; B=150"), values.object);
+  });
+
+  it("yields undefined for absent query parameters", async () => {
+    strictEqual(deserializeParameter(await createParameter("query", "form", true, "array"), "other=1"), undefined);
+  });
+
+  it("rejects values lacking the style's prefix", async () => {
+    const parameter = await createParameter("path", "label", false, "string");
+    throws(() => deserializeParameter(parameter, "blue"), /expected '\.' prefix/);
+  });
+});
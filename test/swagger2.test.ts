@@ -0,0 +1,281 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { createDiagnostics, Diagnostic } from "../diagnostics";
+import { convertSwagger } from "../swagger2";
+import { OpenAPIObject, OperationObject, ResponseObject } from "../types/OpenApi";
+import { loadDocument } from "./helpers";
+
+async function convert(text: string): Promise<{ document: OpenAPIObject, diagnostics: Diagnostic[] }> {
+  const swagger = await loadDocument(text);
+  const diagnostics = createDiagnostics(swagger);
+  return { document: convertSwagger(swagger, diagnostics), diagnostics: diagnostics.list };
+}
+
+function getOperation(document: OpenAPIObject, path: string, method: "get" | "post"): OperationObject {
+  const pathItem = (document.paths || {})[path];
+  const operation = pathItem && pathItem[method];
+  if (!operation) throw new Error(`expected operation '${method} ${path}'`);
+  return operation;
+}
+
+describe("swagger2", () => {
+  describe("request bodies", () => {
+    it("converts body parameters for each consumed media type", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+consumes: [application/json, application/xml]
+paths:
+  /pets:
+    post:
+      parameters:
+        - { name: pet, in: body, required: true, description: the pet, schema: { type: object } }
+      responses:
+        "204": { description: created }
+`);
+      deepStrictEqual(diagnostics, []);
+      deepStrictEqual(getOperation(document, "/pets", "post").requestBody, {
+        description: "the pet",
+        required: true,
+        content: {
+          "application/json": { schema: { type: "object" } },
+          "application/xml": { schema: { type: "object" } }
+        }
+      });
+    });
+
+    it("merges form parameters into an urlencoded object schema", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    post:
+      parameters:
+        - { name: name, in: formData, type: string, required: true, description: the name }
+        - { name: age, in: formData, type: integer, minimum: 0 }
+      responses:
+        "204": { description: created }
+`);
+      deepStrictEqual(diagnostics, []);
+      deepStrictEqual(getOperation(document, "/pets", "post").requestBody, {
+        required: true,
+        content: {
+          "application/x-www-form-urlencoded": {
+            schema: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "the name" },
+                age: { type: "integer", minimum: 0 }
+              },
+              required: ["name"]
+            }
+          }
+        }
+      });
+    });
+
+    it("sends files as binary multipart form data", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+consumes: [application/json]
+paths:
+  /pets/photo:
+    post:
+      parameters:
+        - { name: photo, in: formData, type: file }
+      responses:
+        "204": { description: uploaded }
+`);
+      deepStrictEqual(diagnostics, []);
+      deepStrictEqual(getOperation(document, "/pets/photo", "post").requestBody, {
+        required: false,
+        content: {
+          "multipart/form-data": {
+            schema: { type: "object", properties: { photo: { type: "string", format: "binary" } }, required: [] }
+          }
+        }
+      });
+    });
+
+    it("reports body parameters together with form parameters", async () => {
+      const { diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    post:
+      parameters:
+        - { name: pet, in: body, schema: { type: object } }
+        - { name: name, in: formData, type: string }
+      responses:
+        "204": { description: created }
+`);
+      deepStrictEqual(diagnostics.map(x => `${x.code} ${x.pointer}: ${x.message}`), [
+        "conflicting-body-parameters /paths/~1pets/post/parameters/1: body parameter 'pet' and form parameters are mutually exclusive"
+      ]);
+    });
+  });
+
+  describe("responses", () => {
+    it("lets operations override the produced media types of the document", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+produces: [application/json]
+paths:
+  /pets:
+    get:
+      responses:
+        "200":
+          description: pets
+          schema: { type: array, items: { type: string } }
+  /pets/export:
+    get:
+      produces: [text/csv, application/xml]
+      responses:
+        "200":
+          description: pets
+          schema: { type: string }
+          examples: { text/csv: "name\\nRex" }
+`);
+      deepStrictEqual(diagnostics, []);
+      deepStrictEqual(Object.keys((getOperation(document, "/pets", "get").responses["200"] as ResponseObject).content || {}), ["application/json"]);
+      deepStrictEqual((getOperation(document, "/pets/export", "get").responses["200"] as ResponseObject).content, {
+        "text/csv": { schema: { type: "string" }, example: "name\nRex" },
+        "application/xml": { schema: { type: "string" } }
+      });
+    });
+  });
+
+  describe("parameters", () => {
+    it("converts collection formats into styles", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    get:
+      parameters:
+        - { name: csv, in: query, type: array, items: { type: string } }
+        - { name: ssv, in: query, type: array, items: { type: string }, collectionFormat: ssv }
+        - { name: pipes, in: query, type: array, items: { type: string }, collectionFormat: pipes }
+        - { name: multi, in: query, type: array, items: { type: string }, collectionFormat: multi }
+        - { name: tsv, in: header, type: array, items: { type: string }, collectionFormat: tsv }
+      responses:
+        "200": { description: pets }
+`);
+      deepStrictEqual(getOperation(document, "/pets", "get").parameters!.map((x: any) => [x.name, x.style, x.explode]), [
+        ["csv", "form", false],
+        ["ssv", "spaceDelimited", false],
+        ["pipes", "pipeDelimited", false],
+        ["multi", "form", true],
+        ["tsv", "simple", false]
+      ]);
+      deepStrictEqual(diagnostics.map(x => `${x.severity} ${x.code} ${x.pointer}: ${x.message}`), [
+        "warning unsupported-collection-format /paths/~1pets/get/parameters/4: collection format 'tsv' of parameter 'tsv' has no equivalent in OpenAPI 3, treating it as 'csv'"
+      ]);
+    });
+
+    it("reports unknown collection formats", async () => {
+      const { diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths:
+  /pets:
+    get:
+      parameters:
+        - { name: ids, in: query, type: array, items: { type: string }, collectionFormat: commas }
+      responses:
+        "200": { description: pets }
+`);
+      deepStrictEqual(diagnostics.map(x => `${x.severity} ${x.code}: ${x.message}`), [
+        "error unknown-collection-format: unknown collection format 'commas' of parameter 'ids' (expected 'csv', 'ssv', 'tsv', 'pipes', 'multi')"
+      ]);
+    });
+  });
+
+  describe("servers", () => {
+    it("combines host, base path and schemes", async () => {
+      const { document } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+host: api.example.com
+basePath: /v1
+schemes: [https, http]
+paths:
+  /pets:
+    get:
+      schemes: [wss]
+      responses:
+        "200": { description: pets }
+`);
+      deepStrictEqual(document.servers, [{ url: "https://api.example.com/v1" }, { url: "http://api.example.com/v1" }]);
+      deepStrictEqual(getOperation(document, "/pets", "get").servers, [{ url: "wss://api.example.com/v1" }]);
+    });
+
+    it("keeps the scheme of the document without schemes, and relies on the default server without a host", async () => {
+      const withoutSchemes = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+host: api.example.com
+paths: {}
+`);
+      deepStrictEqual(withoutSchemes.document.servers, [{ url: "//api.example.com" }]);
+      const withoutHost = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+basePath: /v1
+paths: {}
+`);
+      deepStrictEqual(withoutHost.document.servers, [{ url: "/v1" }]);
+      const withoutEither = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths: {}
+`);
+      strictEqual(withoutEither.document.servers, undefined);
+    });
+  });
+
+  describe("security definitions", () => {
+    it("converts each OAuth2 flow and the other scheme types", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths: {}
+securityDefinitions:
+  basic: { type: basic }
+  key: { type: apiKey, name: X-Key, in: header }
+  implicit: { type: oauth2, flow: implicit, authorizationUrl: "https://example.com/auth", scopes: { read: read pets } }
+  password: { type: oauth2, flow: password, tokenUrl: "https://example.com/token", scopes: {} }
+  application: { type: oauth2, flow: application, tokenUrl: "https://example.com/token", scopes: {} }
+  accessCode: { type: oauth2, flow: accessCode, authorizationUrl: "https://example.com/auth", tokenUrl: "https://example.com/token", scopes: {} }
+`);
+      deepStrictEqual(diagnostics, []);
+      const schemes = JSON.parse(JSON.stringify(document.components!.securitySchemes));
+      deepStrictEqual(schemes, {
+        basic: { type: "http", scheme: "basic" },
+        key: { type: "apiKey", name: "X-Key", in: "header" },
+        implicit: { type: "oauth2", flows: { implicit: { authorizationUrl: "https://example.com/auth", scopes: { read: "read pets" } } } },
+        password: { type: "oauth2", flows: { password: { tokenUrl: "https://example.com/token", scopes: {} } } },
+        application: { type: "oauth2", flows: { clientCredentials: { tokenUrl: "https://example.com/token", scopes: {} } } },
+        accessCode: { type: "oauth2", flows: { authorizationCode: { authorizationUrl: "https://example.com/auth", tokenUrl: "https://example.com/token", scopes: {} } } }
+      });
+    });
+
+    it("skips schemes with unknown flows", async () => {
+      const { document, diagnostics } = await convert(`
+swagger: "2.0"
+info: { title: pets, version: "1.0" }
+paths: {}
+securityDefinitions:
+  device: { type: oauth2, flow: device, tokenUrl: "https://example.com/token", scopes: {} }
+`);
+      deepStrictEqual(document.components!.securitySchemes, {});
+      deepStrictEqual(diagnostics.map(x => `${x.code} ${x.pointer}: ${x.message}`), [
+        "invalid-security-scheme /securityDefinitions/device: security scheme 'device' has unknown OAuth2 flow 'device' (expected 'implicit', 'password', 'application' or 'accessCode')"
+      ]);
+    });
+  });
+});
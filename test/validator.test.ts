@@ -0,0 +1,211 @@
+import { deepStrictEqual, strictEqual } from "assert";
+import { Model } from "../modeler";
+import { HttpRequest, HttpResponse, matchStatus, validateRequest, validateResponse, ValidationError } from "../validator";
+import { runDocument } from "./helpers";
+
+const document = `
+openapi: 3.0.3
+info: { title: pets, version: "1.0" }
+servers:
+  - url: https://example.com/api
+paths:
+  /pets:
+    get:
+      parameters:
+        - { name: limit, in: query, schema: { type: integer, minimum: 1, maximum: 100 } }
+        - { name: tags, in: query, style: form, explode: false, schema: { type: array, items: { type: string } } }
+        - { name: X-Request-Id, in: header, required: true, schema: { type: string, format: uuid } }
+      responses:
+        "200":
+          description: pets
+          headers:
+            X-Total: { required: true, schema: { type: integer } }
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: "#/components/schemas/Pet" } }
+        "4XX":
+          description: client error
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Error" }
+        default:
+          description: unexpected error
+    post:
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: "#/components/schemas/Pet" }
+          application/x-www-form-urlencoded:
+            schema: { $ref: "#/components/schemas/Pet" }
+      responses:
+        "201": { description: created }
+  /pets/{id}:
+    parameters:
+      - { name: id, in: path, required: true, schema: { type: integer } }
+    get:
+      parameters:
+        - { name: session, in: cookie, schema: { type: string, minLength: 4 } }
+      responses:
+        "200":
+          description: pet
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Pet" }
+components:
+  schemas:
+    Pet:
+      type: object
+      additionalProperties: false
+      required: [id, name]
+      properties:
+        id: { type: integer, readOnly: true }
+        name: { type: string, minLength: 1 }
+        tag: { type: string, nullable: true, pattern: "^[a-z ]+$" }
+        secret: { type: string, writeOnly: true }
+    Error:
+      type: object
+      required: [message]
+      properties:
+        message: { type: string }
+`;
+
+function request(method: string, url: string, headers: { [name: string]: string } = {}, body?: string): HttpRequest {
+  return { method: method, url: url, headers: headers, body: body };
+}
+
+function response(status: number, headers: { [name: string]: string } = {}, body?: string): HttpResponse {
+  return { status: status, headers: headers, body: body };
+}
+
+function describeErrors(errors: ValidationError[]): string[] {
+  return errors.map(error => `${error.location}${error.name ? ` '${error.name}'` : ""}${error.pointer ? ` ${error.pointer}` : ""}: ${error.message}`);
+}
+
+describe("validator", () => {
+  let model: Model;
+  before(async () => {
+    const result = await runDocument(document);
+    deepStrictEqual(result.diagnostics, []);
+    model = result.model;
+  });
+
+  describe("validateRequest", () => {
+    it("deserializes the parameters of a valid request", () => {
+      const result = validateRequest(model, request("GET", "/api/pets?limit=10&tags=cat,dog", { "x-request-id": "1" }));
+      deepStrictEqual(describeErrors(result.errors), []);
+      strictEqual(result.method, model.operations[0]);
+      deepStrictEqual(result.parameters.query, { limit: 10, tags: ["cat", "dog"] });
+      deepStrictEqual(result.parameters.header, { "X-Request-Id": "1" });
+    });
+
+    it("accepts absolute URLs regardless of their host", () => {
+      const result = validateRequest(model, request("GET", "http://localhost:8080/api/pets/7"));
+      deepStrictEqual(describeErrors(result.errors), []);
+      deepStrictEqual(result.parameters.path, { id: 7 });
+    });
+
+    it("reports unknown paths and methods", () => {
+      deepStrictEqual(describeErrors(validateRequest(model, request("GET", "/api/owners")).errors), ["request: no operation matches '/api/owners'"]);
+      deepStrictEqual(describeErrors(validateRequest(model, request("PUT", "/api/pets")).errors), ["request: method 'PUT' is not allowed for '/api/pets'"]);
+    });
+
+    it("reports missing and invalid parameters", () => {
+      const result = validateRequest(model, request("GET", "/api/pets?limit=0"));
+      deepStrictEqual(describeErrors(result.errors), [
+        "query 'limit': expected a value >= 1, got 0",
+        "header 'X-Request-Id': missing required header parameter 'X-Request-Id'"
+      ]);
+    });
+
+    it("reports path and cookie parameters of the wrong type", () => {
+      const result = validateRequest(model, request("GET", "/api/pets/rex", { cookie: "session=abc" }));
+      deepStrictEqual(describeErrors(result.errors), [
+        "path 'id': expected integer, got string",
+        "cookie 'session': expected at least 4 characters, got 3"
+      ]);
+    });
+
+    it("validates JSON bodies", () => {
+      const valid = validateRequest(model, request("POST", "/api/pets", { "content-type": "application/json" }, `{ "name": "rex", "secret": "s" }`));
+      deepStrictEqual(describeErrors(valid.errors), []);
+      deepStrictEqual(valid.body, { name: "rex", secret: "s" });
+
+      const invalid = validateRequest(model, request("POST", "/api/pets", { "content-type": "application/json; charset=utf-8" }, `{ "id": 1, "name": "", "age": 3 }`));
+      deepStrictEqual(describeErrors(invalid.errors), [
+        "body /id: read-only property 'id' is not allowed in requests",
+        "body /name: expected at least 1 characters, got 0",
+        "body /age: unexpected property 'age'"
+      ]);
+    });
+
+    it("parses form bodies according to the schema", () => {
+      const result = validateRequest(model, request("POST", "/api/pets", { "content-type": "application/x-www-form-urlencoded" }, "name=rex&tag=good%20boy"));
+      deepStrictEqual(describeErrors(result.errors), []);
+      deepStrictEqual(result.body, { name: "rex", tag: "good boy" });
+    });
+
+    it("decodes '+' as a space in form bodies", () => {
+      const result = validateRequest(model, request("POST", "/api/pets", { "content-type": "application/x-www-form-urlencoded" }, "name=john+doe&tag=good+boy&nick+name=j+d"));
+      deepStrictEqual(describeErrors(result.errors), ["body /nick name: unexpected property 'nick name'"]);
+      deepStrictEqual(result.body, { name: "john doe", tag: "good boy", "nick name": "j d" });
+    });
+
+    it("reports missing bodies, malformed JSON and unsupported content types", () => {
+      deepStrictEqual(describeErrors(validateRequest(model, request("POST", "/api/pets")).errors), ["body: missing required request body"]);
+      strictEqual(validateRequest(model, request("POST", "/api/pets", { "content-type": "application/json" }, "{")).errors[0].message.indexOf("invalid JSON"), 0);
+      deepStrictEqual(describeErrors(validateRequest(model, request("POST", "/api/pets", { "content-type": "text/plain" }, "rex")).errors), [
+        "body: unsupported content type 'text/plain' (expected 'application/json', 'application/x-www-form-urlencoded')"
+      ]);
+    });
+  });
+
+  describe("validateResponse", () => {
+    const listPets = { method: "GET", url: "/api/pets" };
+
+    it("matches status codes against patterns", () => {
+      strictEqual(matchStatus("404", 404), true);
+      strictEqual(matchStatus("4XX", 404), true);
+      strictEqual(matchStatus("4XX", 500), false);
+      strictEqual(matchStatus("XXX", 500), true);
+    });
+
+    it("deserializes the headers and body of a valid response", () => {
+      const result = validateResponse(model, listPets, response(200, { "Content-Type": "application/json", "X-Total": "1" }, `[{ "id": 1, "name": "rex", "tag": null }]`));
+      deepStrictEqual(describeErrors(result.errors), []);
+      deepStrictEqual(result.headers, { "X-Total": 1 });
+      deepStrictEqual(result.body, [{ id: 1, name: "rex", tag: null }]);
+    });
+
+    it("applies the most specific response", () => {
+      const clientError = validateResponse(model, listPets, response(404, { "content-type": "application/json" }, `{ "message": "not found" }`));
+      strictEqual(clientError.response, model.operations[0].responses.filter(x => x.key === "4XX")[0].response);
+      deepStrictEqual(describeErrors(clientError.errors), []);
+      const serverError = validateResponse(model, listPets, response(503));
+      strictEqual(serverError.response, model.operations[0].responses.filter(x => x.key === "XXX")[0].response);
+      deepStrictEqual(describeErrors(serverError.errors), []);
+    });
+
+    it("reports undeclared status codes", () => {
+      const result = validateResponse(model, { method: "POST", url: "/api/pets" }, response(200));
+      deepStrictEqual(describeErrors(result.errors), ["response: status code 200 is not declared (expected '201')"]);
+    });
+
+    it("reports missing and invalid headers and bodies", () => {
+      deepStrictEqual(describeErrors(validateResponse(model, listPets, response(200)).errors), [
+        "header 'X-Total': missing required header 'X-Total'",
+        "body: missing response body"
+      ]);
+      deepStrictEqual(describeErrors(validateResponse(model, listPets, response(200, { "content-type": "application/json", "x-total": "many" }, `[{ "name": "rex", "secret": "s" }]`)).errors), [
+        "header 'X-Total': expected integer, got string",
+        "body /0: missing required property 'id'",
+        "body /0/secret: write-only property 'secret' is not allowed in responses"
+      ]);
+    });
+
+    it("reports unexpected bodies", () => {
+      const result = validateResponse(model, { method: "POST", url: "/api/pets" }, response(201, { "content-type": "application/json" }, "{}"));
+      deepStrictEqual(describeErrors(result.errors), ["body: no body expected for status code 201"]);
+    });
+  });
+});
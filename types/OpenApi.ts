@@ -1,5 +1,6 @@
 // Typed interfaces for OpenAPI 3.0.0-RC
 // see https://github.com/OAI/OpenAPI-Specification/blob/3.0.0-rc0/versions/3.0.md
+// (plus the additions of OpenAPI 3.1, see https://spec.openapis.org/oas/v3.1.0)
 
 import { ISpecificationExtension } from "openapi3-ts";
 
@@ -7,7 +8,8 @@ export interface OpenAPIObject extends ISpecificationExtension {
   openapi: string;
   info: InfoObject;
   servers?: ServerObject[];
-  paths: PathObject;
+  paths?: PathObject;
+  webhooks?: { [name: string]: PathItemObject };
   components: ComponentsObject;
   security?: SecurityRequirementObject[];
   tags?: TagObject[];
@@ -15,6 +17,7 @@ export interface OpenAPIObject extends ISpecificationExtension {
 }
 export interface InfoObject extends ISpecificationExtension {
   title: string;
+  summary?: string;
   description?: string;
   termsOfService?: string;
   contact?: ContactObject;
@@ -28,6 +31,7 @@ export interface ContactObject extends ISpecificationExtension {
 }
 export interface LicenseObject extends ISpecificationExtension {
   name: string;
+  identifier?: string;
   url: string;
 }
 export interface ServerObject extends ISpecificationExtension {
@@ -50,6 +54,7 @@ export interface ComponentsObject extends ISpecificationExtension {
   securitySchemes?: { [securityScheme: string]: SecuritySchemeObject };
   links?: { [link: string]: LinkObject };
   callbacks?: { [callback: string]: CallbackObject };
+  pathItems?: { [pathItem: string]: PathItemObject };
 }
 export interface PathObject extends ISpecificationExtension {
   [path: string]: PathItemObject;
@@ -157,11 +162,12 @@ export interface LinksObject {
   [name: string]: LinkObject | ReferenceObject;
 }
 export interface LinkObject extends ISpecificationExtension {
-  href?: string;
+  operationRef?: string;
   operationId?: string;
   parameters?: LinkParametersObject;
-  headers?: HeadersObject;
+  requestBody?: any;
   description?: string;
+  server?: ServerObject;
 }
 export interface LinkParametersObject {
   [name: string]: any;
@@ -190,7 +196,8 @@ export interface ISchemaObject extends ISpecificationExtension {
   examples?: any[];
   deprecated?: boolean;
 
-  type?: string;
+  type?: string | string[];
+  const?: any;
   allOf?: (ISchemaObject | ReferenceObject)[];
   oneOf?: (ISchemaObject | ReferenceObject)[];
   anyOf?: (ISchemaObject | ReferenceObject)[];
@@ -205,9 +212,9 @@ export interface ISchemaObject extends ISpecificationExtension {
   title?: string;
   multipleOf?: number;
   maximum?: number;
-  exclusiveMaximum?: boolean;
+  exclusiveMaximum?: boolean | number;
   minimum?: number;
-  exclusiveMinimum?: boolean;
+  exclusiveMinimum?: boolean | number;
   maxLength?: number;
   minLength?: number;
   pattern?: string;
@@ -218,6 +225,8 @@ export interface ISchemaObject extends ISpecificationExtension {
   minProperties?: number;
   required?: string[];
   enum?: any[];
+  contentMediaType?: string;
+  contentEncoding?: string;
 }
 
 export interface XmlObject extends ISpecificationExtension {
@@ -231,36 +240,49 @@ export type SecuritySchemeObject = SecuritySchemeObjectApiKey | SecuritySchemeOb
 export interface SecuritySchemeObjectApiKey extends ISpecificationExtension {
   type: "apiKey";
   description?: string;
-  name?: string;
-  in?: string;
+  name: string;
+  in: "query" | "header" | "cookie";
 }
 export interface SecuritySchemeObjectHttp extends ISpecificationExtension {
   type: "http";
   description?: string;
-  scheme?: string;
+  scheme: string;
   bearerFormat?: string;
 }
 export interface SecuritySchemeObjectOAuth2 extends ISpecificationExtension {
   type: "oauth2";
   description?: string;
-  flow?: OAuthFlowObject;
+  flows: OAuthFlowsObject;
 }
 export interface SecuritySchemeObjectOpenIdConnect extends ISpecificationExtension {
   type: "openIdConnect";
   description?: string;
-  openIdConnectUrl?: string;
+  openIdConnectUrl: string;
 }
 export interface OAuthFlowsObject extends ISpecificationExtension {
-  implicit: OAuthFlowObject;
-  password: OAuthFlowObject;
-  clientCredentials: OAuthFlowObject;
-  authorizationCode: OAuthFlowObject;
+  implicit?: OAuthFlowObjectImplicit;
+  password?: OAuthFlowObjectPassword;
+  clientCredentials?: OAuthFlowObjectClientCredentials;
+  authorizationCode?: OAuthFlowObjectAuthorizationCode;
 }
 export interface OAuthFlowObject extends ISpecificationExtension {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: ScopesObject;
+}
+export interface OAuthFlowObjectImplicit extends OAuthFlowObject {
+  authorizationUrl: string;
+}
+export interface OAuthFlowObjectPassword extends OAuthFlowObject {
+  tokenUrl: string;
+}
+export interface OAuthFlowObjectClientCredentials extends OAuthFlowObject {
+  tokenUrl: string;
+}
+export interface OAuthFlowObjectAuthorizationCode extends OAuthFlowObject {
   authorizationUrl: string;
   tokenUrl: string;
-  refreshUrl: string;
-  scopes: ScopesObject;
 }
 export interface ScopesObject extends ISpecificationExtension {
   [scope: string]: string;
@@ -0,0 +1,150 @@
+// Typed interfaces for Swagger 2.0
+// see https://github.com/OAI/OpenAPI-Specification/blob/master/versions/2.0.md
+
+import { ISpecificationExtension } from "openapi3-ts";
+import { ExternalDocumentationObject, InfoObject, SecurityRequirementObject, TagObject, XmlObject } from "./OpenApi";
+
+export interface SwaggerObject extends ISpecificationExtension {
+  swagger: string;
+  info: InfoObject;
+  host?: string;
+  basePath?: string;
+  schemes?: ("http" | "https" | "ws" | "wss")[];
+  consumes?: string[];
+  produces?: string[];
+  paths: PathsObject;
+  definitions?: { [name: string]: SchemaObject };
+  parameters?: { [name: string]: ParameterObject };
+  responses?: { [name: string]: ResponseObject };
+  securityDefinitions?: { [name: string]: SecuritySchemeObject };
+  security?: SecurityRequirementObject[];
+  tags?: TagObject[];
+  externalDocs?: ExternalDocumentationObject;
+}
+export interface PathsObject extends ISpecificationExtension {
+  [path: string]: PathItemObject;
+}
+export interface PathItemObject extends ISpecificationExtension {
+  $ref?: string;
+  get?: OperationObject;
+  put?: OperationObject;
+  post?: OperationObject;
+  delete?: OperationObject;
+  options?: OperationObject;
+  head?: OperationObject;
+  patch?: OperationObject;
+  parameters?: (ParameterObject | ReferenceObject)[];
+}
+export interface OperationObject extends ISpecificationExtension {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  externalDocs?: ExternalDocumentationObject;
+  operationId?: string;
+  consumes?: string[];
+  produces?: string[];
+  parameters?: (ParameterObject | ReferenceObject)[];
+  responses: ResponsesObject;
+  schemes?: ("http" | "https" | "ws" | "wss")[];
+  deprecated?: boolean;
+  security?: SecurityRequirementObject[];
+}
+export interface ItemsObject extends ISpecificationExtension {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "file";
+  format?: string;
+  items?: ItemsObject;
+  collectionFormat?: "csv" | "ssv" | "tsv" | "pipes" | "multi";
+  default?: any;
+  maximum?: number;
+  exclusiveMaximum?: boolean;
+  minimum?: number;
+  exclusiveMinimum?: boolean;
+  maxLength?: number;
+  minLength?: number;
+  pattern?: string;
+  maxItems?: number;
+  minItems?: number;
+  uniqueItems?: boolean;
+  enum?: any[];
+  multipleOf?: number;
+}
+export interface ParameterObjectBody extends ISpecificationExtension {
+  name: string;
+  in: "body";
+  description?: string;
+  required?: boolean;
+  schema: SchemaObject | ReferenceObject;
+}
+export interface ParameterObjectOther extends ItemsObject {
+  name: string;
+  in: "query" | "header" | "path" | "formData";
+  description?: string;
+  required?: boolean;
+  allowEmptyValue?: boolean;
+}
+export type ParameterObject = ParameterObjectBody | ParameterObjectOther;
+export interface ResponsesObject extends ISpecificationExtension {
+  [statuscode: string]: ResponseObject | ReferenceObject;
+}
+export interface ResponseObject extends ISpecificationExtension {
+  description: string;
+  schema?: SchemaObject | ReferenceObject;
+  headers?: { [name: string]: HeaderObject };
+  examples?: { [mimeType: string]: any };
+}
+export interface HeaderObject extends ItemsObject {
+  description?: string;
+}
+export interface SchemaObject extends ISpecificationExtension {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object" | "file" | "null";
+  format?: string;
+  title?: string;
+  description?: string;
+  default?: any;
+  multipleOf?: number;
+  maximum?: number;
+  exclusiveMaximum?: boolean;
+  minimum?: number;
+  exclusiveMinimum?: boolean;
+  maxLength?: number;
+  minLength?: number;
+  pattern?: string;
+  maxItems?: number;
+  minItems?: number;
+  uniqueItems?: boolean;
+  maxProperties?: number;
+  minProperties?: number;
+  required?: string[];
+  enum?: any[];
+  items?: SchemaObject | ReferenceObject;
+  allOf?: (SchemaObject | ReferenceObject)[];
+  properties?: { [name: string]: SchemaObject | ReferenceObject };
+  additionalProperties?: boolean | SchemaObject | ReferenceObject;
+  discriminator?: string;
+  readOnly?: boolean;
+  xml?: XmlObject;
+  externalDocs?: ExternalDocumentationObject;
+  example?: any;
+}
+export type SecuritySchemeObject = SecuritySchemeObjectBasic | SecuritySchemeObjectApiKey | SecuritySchemeObjectOAuth2;
+export interface SecuritySchemeObjectBasic extends ISpecificationExtension {
+  type: "basic";
+  description?: string;
+}
+export interface SecuritySchemeObjectApiKey extends ISpecificationExtension {
+  type: "apiKey";
+  description?: string;
+  name: string;
+  in: "query" | "header";
+}
+export interface SecuritySchemeObjectOAuth2 extends ISpecificationExtension {
+  type: "oauth2";
+  description?: string;
+  flow: "implicit" | "password" | "application" | "accessCode";
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes: { [scope: string]: string };
+}
+export interface ReferenceObject {
+  $ref: string;
+}
@@ -0,0 +1,477 @@
+import { parse as parseUrl } from "url";
+import { Content, Encoding, Method, Model, Parameter, Response, Schema } from "./modeler";
+import { createRouter, RouteResult, Router } from "./router";
+import { deserializeEncoding, deserializeParameter, isJsonMediaType } from "./serializer";
+import { escapePointerPart } from "./json-pointer";
+
+export type HttpHeaders = { [name: string]: string | string[] | undefined };
+
+export interface HttpRequest {
+  method: string;
+  // absolute, or just path and query
+  url: string;
+  headers: HttpHeaders;
+  // in addition to those sent in the Cookie header
+  cookies?: { [name: string]: string };
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: HttpHeaders;
+  body?: string;
+}
+
+export interface ValidationError {
+  location: "request" | "response" | "path" | "query" | "header" | "cookie" | "body";
+  // parameter the error concerns, if any
+  name?: string;
+  // JSON pointer to the offending part of the value
+  pointer: string;
+  message: string;
+}
+
+export interface RequestValidationResult {
+  // matched operation, absent if there is none
+  method?: Method;
+  // deserialized parameters, keyed by location and name
+  parameters: { [location: string]: { [name: string]: any } };
+  body?: any;
+  errors: ValidationError[];
+}
+
+export interface ResponseValidationResult {
+  // matched operation and response, absent if there is none
+  method?: Method;
+  response?: Response;
+  // deserialized headers, keyed by name
+  headers: { [name: string]: any };
+  body?: any;
+  errors: ValidationError[];
+}
+
+interface SchemaError {
+  pointer: string;
+  message: string;
+}
+
+type Direction = "request" | "response";
+
+function describeValue(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// see https://tools.ietf.org/html/rfc3339#section-5.6
+const formatPatterns: { [format: string]: RegExp } = {
+  "date": /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+  "date-time": /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])[Tt]([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?([Zz]|[+-]([01]\d|2[0-3]):[0-5]\d)$/,
+  "byte": /^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/
+};
+
+/**
+ * @param dispatched Whether the value was handed to this schema by a discriminator (so it is not dispatched again).
+ */
+function validateSchemaValue(schema: Schema, value: any, direction: Direction, pointer: string, errors: SchemaError[], dispatched: boolean): void {
+  const report = (message: string) => errors.push({ pointer: pointer, message: message });
+  if (value === null && schema.nullable) return;
+  if (schema.enum && !schema.enum.some(x => isEqual(x, value))) {
+    report(`expected one of ${schema.enum.map(x => JSON.stringify(x)).join(", ")}, got ${JSON.stringify(value)}`);
+  }
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        report(`expected string, got ${describeValue(value)}`);
+        break;
+      }
+      // count code points, not UTF-16 code units
+      const length = value.replace(/[\uD800-\uDBFF][\uDC00-\uDFFF]/g, "_").length;
+      if (schema.minLength !== undefined && length < schema.minLength) report(`expected at least ${schema.minLength} characters, got ${length}`);
+      if (schema.maxLength !== undefined && length > schema.maxLength) report(`expected at most ${schema.maxLength} characters, got ${length}`);
+      if (schema.pattern !== undefined) {
+        let pattern: RegExp | undefined = undefined;
+        try {
+          pattern = new RegExp(schema.pattern);
+        } catch (e) {
+          report(`invalid pattern '${schema.pattern}'`);
+        }
+        if (pattern && !pattern.test(value)) report(`expected to match pattern '${schema.pattern}'`);
+      }
+      const formatPattern = schema.format !== undefined ? formatPatterns[schema.format] : undefined;
+      if (formatPattern && !formatPattern.test(value)) report(`expected format '${schema.format}'`);
+      break;
+    case "integer":
+    case "number":
+      if (typeof value !== "number" || !isFinite(value) || (schema.type === "integer" && Math.floor(value) !== value)) {
+        report(`expected ${schema.type}, got ${typeof value === "number" ? value : describeValue(value)}`);
+        break;
+      }
+      if (schema.minimum !== undefined && (schema.exclusiveMinimum ? value <= schema.minimum : value < schema.minimum)) {
+        report(`expected a value ${schema.exclusiveMinimum ? ">" : ">="} ${schema.minimum}, got ${value}`);
+      }
+      if (schema.maximum !== undefined && (schema.exclusiveMaximum ? value >= schema.maximum : value > schema.maximum)) {
+        report(`expected a value ${schema.exclusiveMaximum ? "<" : "<="} ${schema.maximum}, got ${value}`);
+      }
+      // tolerate floating point noise
+      if (schema.multipleOf !== undefined && Math.abs(Math.round(value / schema.multipleOf) * schema.multipleOf - value) > 1e-9 * Math.abs(value)) {
+        report(`expected a multiple of ${schema.multipleOf}, got ${value}`);
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") report(`expected boolean, got ${describeValue(value)}`);
+      break;
+    case "null":
+      if (value !== null) report(`expected null, got ${describeValue(value)}`);
+      break;
+    case "array":
+      if (!Array.isArray(value)) {
+        report(`expected array, got ${describeValue(value)}`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) report(`expected at least ${schema.minItems} items, got ${value.length}`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) report(`expected at most ${schema.maxItems} items, got ${value.length}`);
+      if (schema.uniqueItems) {
+        const serialized = value.map(item => JSON.stringify(item));
+        if (serialized.some((item, index) => serialized.indexOf(item) !== index)) report("expected unique items");
+      }
+      value.forEach((item, index) => validateSchemaValue(schema.items, item, direction, `${pointer}/${index}`, errors, false));
+      break;
+    case "object":
+      if (!isPlainObject(value)) {
+        if (schema.typeDeclared) report(`expected object, got ${describeValue(value)}`);
+        break;
+      }
+      const properties = schema.effectiveProperties;
+      for (const name of schema.effectiveRequired) {
+        const property = properties[name];
+        // read-only properties are only sent in responses, write-only ones only in requests
+        const ignored = property && (direction === "request" ? property.readOnly : property.writeOnly);
+        if (value[name] === undefined && !ignored) report(`missing required property '${name}'`);
+      }
+      for (const name of Object.keys(value)) {
+        if (value[name] === undefined) continue;
+        const property = properties[name] || schema.additionalProperties;
+        const propertyPointer = `${pointer}/${escapePointerPart(name)}`;
+        if (!property) {
+          if (schema.closed) errors.push({ pointer: propertyPointer, message: `unexpected property '${name}'` });
+          continue;
+        }
+        if (direction === "request" && property.readOnly) errors.push({ pointer: propertyPointer, message: `read-only property '${name}' is not allowed in requests` });
+        if (direction === "response" && property.writeOnly) errors.push({ pointer: propertyPointer, message: `write-only property '${name}' is not allowed in responses` });
+        validateSchemaValue(property, value[name], direction, propertyPointer, errors, false);
+      }
+      const count = Object.keys(value).length;
+      if (schema.minProperties !== undefined && count < schema.minProperties) report(`expected at least ${schema.minProperties} properties, got ${count}`);
+      if (schema.maxProperties !== undefined && count > schema.maxProperties) report(`expected at most ${schema.maxProperties} properties, got ${count}`);
+
+      const discriminator = schema.discriminator;
+      if (discriminator && !dispatched) {
+        const discriminatorValue = value[discriminator.propertyName];
+        const mapped = typeof discriminatorValue === "string" ? discriminator.mapping[discriminatorValue] : undefined;
+        if (mapped && mapped !== schema) {
+          validateSchemaValue(mapped, value, direction, pointer, errors, true);
+        }
+      }
+      break;
+  }
+
+  // composition
+  for (const member of schema.allOf || []) {
+    validateSchemaValue(member, value, direction, pointer, errors, dispatched);
+  }
+  const matching = (alternatives: Schema[]) => alternatives.filter(alternative => {
+    const alternativeErrors: SchemaError[] = [];
+    validateSchemaValue(alternative, value, direction, pointer, alternativeErrors, dispatched);
+    return alternativeErrors.length === 0;
+  }).length;
+  if (schema.anyOf && matching(schema.anyOf) === 0) report("expected to match at least one schema of 'anyOf'");
+  if (schema.oneOf) {
+    const count = matching(schema.oneOf);
+    if (count !== 1) report(`expected to match exactly one schema of 'oneOf', matched ${count}`);
+  }
+  if (schema.not && matching([schema.not]) !== 0) report("expected not to match schema of 'not'");
+}
+
+/**
+ * Validates given value against given schema.
+ * @param direction Whether the value is sent in a request or a response, which determines how read-only and write-only properties are treated.
+ */
+export function validateSchema(schema: Schema, value: any, direction: Direction = "request"): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateSchemaValue(schema, value, direction, "", errors, false);
+  // members of `allOf` re-validate properties that are part of the effective ones already
+  const keys = errors.map(error => error.pointer + " " + error.message);
+  return errors.filter((error, index) => keys.indexOf(keys[index]) === index);
+}
+
+function getHeader(headers: HttpHeaders, name: string): string | undefined {
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name.toLowerCase()) {
+      const value = headers[key];
+      return Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the media type of given content that applies to given Content-Type, considering ranges like "image/*".
+ */
+function matchMediaType(content: Content, contentType: string): string | undefined {
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  const candidates = [mediaType, mediaType.split("/")[0] + "/*", "*/*"];
+  for (const candidate of candidates) {
+    const key = Object.keys(content).filter(key => key.toLowerCase() === candidate)[0];
+    if (key !== undefined) return key;
+  }
+  return undefined;
+}
+
+function decodeFormComponent(text: string): string {
+  return decodeURIComponent(text.replace(/\+/g, " "));
+}
+
+function parseFormBody(content: Content, mediaType: string, body: string): { [name: string]: any } {
+  const mediaTypeContent = content[mediaType];
+  const schema = mediaTypeContent.schema;
+  const properties = schema && schema.type === "object" ? schema.effectiveProperties : {};
+  const result: { [name: string]: any } = {};
+  for (const name of Object.keys(properties)) {
+    const encoding: Encoding = mediaTypeContent.encoding[name] || {
+      contentType: "text/plain",
+      headers: [],
+      format: { style: "form", explode: true },
+      allowReserved: false
+    };
+    const value = deserializeEncoding(name, encoding, body, properties[name]);
+    if (value !== undefined) result[name] = value;
+  }
+  // keep unknown fields, so closed schemas can reject them
+  for (const pair of body.split("&")) {
+    const name = decodeFormComponent(pair.split("=")[0]);
+    if (name !== "" && !(name in properties) && !(name in result)) {
+      result[name] = decodeFormComponent(pair.slice(pair.indexOf("=") + 1));
+    }
+  }
+  return result;
+}
+
+function getParameterSchema(parameter: Parameter): Schema | undefined {
+  const mediaType = Object.keys(parameter.content).filter(mediaType => mediaType !== "")[0];
+  return parameter.content[mediaType !== undefined ? mediaType : ""].schema;
+}
+
+function validateParameters(method: Method, request: HttpRequest, pathValues: { [name: string]: string }, query: string, result: RequestValidationResult): void {
+  const cookies = getHeader(request.headers, "cookie") || "";
+  const cookieText = [cookies].concat(Object.keys(request.cookies || {}).map(name => `${name}=${(request.cookies as any)[name]}`)).filter(x => x !== "").join("; ");
+  for (const parameter of method.parameters) {
+    const location = parameter.location;
+    // see https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#fixed-fields-10
+    if (location === "header" && ["accept", "content-type", "authorization"].indexOf(parameter.name.toLowerCase()) !== -1) continue;
+    const error = (message: string, pointer: string = "") => result.errors.push({ location: location, name: parameter.name, pointer: pointer, message: message });
+
+    let raw: string | undefined;
+    switch (location) {
+      case "path": raw = pathValues[parameter.name]; break;
+      case "query": raw = query; break;
+      case "header": raw = getHeader(request.headers, parameter.name); break;
+      case "cookie": raw = cookieText; break;
+    }
+    let value: any;
+    try {
+      value = raw === undefined ? undefined : deserializeParameter(parameter, raw);
+    } catch (e) {
+      error(e.message);
+      continue;
+    }
+    if (value === undefined) {
+      if (parameter.required) error(`missing required ${location} parameter '${parameter.name}'`);
+      continue;
+    }
+    if (parameter.location === "query" && value === "" && !parameter.allowEmptyValue) {
+      error(`empty value of query parameter '${parameter.name}' is not allowed`);
+      continue;
+    }
+    result.parameters[location][parameter.name] = value;
+
+    const schema = getParameterSchema(parameter);
+    if (schema) {
+      for (const schemaError of validateSchema(schema, value, "request")) {
+        error(schemaError.message, schemaError.pointer);
+      }
+    }
+  }
+}
+
+/**
+ * Parses given body according to its Content-Type and validates it against the matching media type of given content.
+ * @returns The parsed body (raw for binary or multipart content).
+ */
+function validateContent(content: Content, contentType: string, body: string, direction: Direction, errors: ValidationError[]): any {
+  const error = (message: string, pointer: string = "") => errors.push({ location: "body", pointer: pointer, message: message });
+  const mediaType = matchMediaType(content, contentType);
+  if (mediaType === undefined) {
+    error(`unsupported content type '${contentType}' (expected ${Object.keys(content).map(x => `'${x}'`).join(", ")})`);
+    return undefined;
+  }
+  const schema = content[mediaType].schema;
+  const actualMediaType = contentType.split(";")[0].trim().toLowerCase();
+  let result: any;
+  if (isJsonMediaType(actualMediaType)) {
+    try {
+      result = JSON.parse(body);
+    } catch (e) {
+      error(`invalid JSON: ${e.message}`);
+      return undefined;
+    }
+  } else if (actualMediaType === "application/x-www-form-urlencoded") {
+    try {
+      result = parseFormBody(content, mediaType, body);
+    } catch (e) {
+      error(e.message);
+      return undefined;
+    }
+  } else if (actualMediaType.startsWith("text/") && schema && schema.type === "string") {
+    result = body;
+  } else {
+    // binary or multipart content is passed through as is
+    return body;
+  }
+  if (schema) {
+    for (const schemaError of validateSchema(schema, result, direction)) {
+      error(schemaError.message, schemaError.pointer);
+    }
+  }
+  return result;
+}
+
+function validateBody(method: Method, request: HttpRequest, result: RequestValidationResult): void {
+  const parameterBody = method.parameterBody;
+  if (!parameterBody) return;
+  if (request.body === undefined || request.body === "") {
+    if (parameterBody.required) result.errors.push({ location: "body", pointer: "", message: "missing required request body" });
+    return;
+  }
+  const contentType = getHeader(request.headers, "content-type") || "application/octet-stream";
+  result.body = validateContent(parameterBody.content, contentType, request.body, "request", result.errors);
+}
+
+// routers are compiled once per model
+const routers = new WeakMap<Model, Router>();
+
+/**
+ * Finds the operation given request is meant for.
+ * @returns An error message if there is none.
+ */
+function matchOperation(model: Model, httpMethod: string, url: string): RouteResult & { type: "match" } | string {
+  const router = routers.get(model) || createRouter(model);
+  routers.set(model, router);
+  const result = router.match(httpMethod, url);
+  const path = parseUrl(url).pathname || "/";
+  switch (result.type) {
+    case "match": return result;
+    case "method-not-allowed": return `method '${httpMethod.toUpperCase()}' is not allowed for '${path}'`;
+    case "not-found": return `no operation matches '${path}'`;
+  }
+}
+
+/**
+ * Matches given request to an operation of the model and validates its parameters and body.
+ * Servers are matched by their path only, so requests are accepted regardless of the host they were sent to.
+ */
+export function validateRequest(model: Model, request: HttpRequest): RequestValidationResult {
+  const result: RequestValidationResult = {
+    parameters: { path: {}, query: {}, header: {}, cookie: {} },
+    errors: []
+  };
+  const match = matchOperation(model, request.method, request.url);
+  if (typeof match === "string") {
+    result.errors.push({ location: "request", pointer: "", message: match });
+    return result;
+  }
+
+  result.method = match.method;
+  validateParameters(match.method, request, match.pathValues, parseUrl(request.url).query as string || "", result);
+  validateBody(match.method, request, result);
+  return result;
+}
+
+/**
+ * Whether given status code matches given pattern like "404", "4XX" or "XXX".
+ */
+export function matchStatus(pattern: string, status: number): boolean {
+  const code = status.toString();
+  return code.length === pattern.length && pattern.split("").every((c, i) => c === "X" || c === code[i]);
+}
+
+/**
+ * Validates given response to a request for given method and URL against the model.
+ * The most specific response declared for the status code applies.
+ */
+export function validateResponse(model: Model, request: { method: string, url: string }, response: HttpResponse): ResponseValidationResult {
+  const result: ResponseValidationResult = { headers: {}, errors: [] };
+  const match = matchOperation(model, request.method, request.url);
+  if (typeof match === "string") {
+    result.errors.push({ location: "request", pointer: "", message: match });
+    return result;
+  }
+  result.method = match.method;
+
+  // responses are sorted by specificity
+  const methodResponse = match.method.responses.filter(methodResponse => matchStatus(methodResponse.key, response.status))[0];
+  if (!methodResponse) {
+    result.errors.push({ location: "response", pointer: "", message: `status code ${response.status} is not declared (expected ${match.method.responses.map(x => `'${x.key}'`).join(", ")})` });
+    return result;
+  }
+  result.response = methodResponse.response;
+
+  // headers
+  for (const header of methodResponse.response.headers) {
+    // see https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#fixed-fields-14
+    if (header.name.toLowerCase() === "content-type") continue;
+    const error = (message: string, pointer: string = "") => result.errors.push({ location: "header", name: header.name, pointer: pointer, message: message });
+    const raw = getHeader(response.headers, header.name);
+    if (raw === undefined) {
+      if (header.required) error(`missing required header '${header.name}'`);
+      continue;
+    }
+    const parameter: Parameter = Object.assign({ location: "header" as "header" }, header);
+    let value: any;
+    try {
+      value = deserializeParameter(parameter, raw);
+    } catch (e) {
+      error(e.message);
+      continue;
+    }
+    result.headers[header.name] = value;
+    const schema = getParameterSchema(parameter);
+    if (schema) {
+      for (const schemaError of validateSchema(schema, value, "response")) {
+        error(schemaError.message, schemaError.pointer);
+      }
+    }
+  }
+
+  // body
+  const content = methodResponse.response.content;
+  const hasBody = response.body !== undefined && response.body !== "";
+  if (hasBody && Object.keys(content).length === 0) {
+    result.errors.push({ location: "body", pointer: "", message: `no body expected for status code ${response.status}` });
+  } else if (hasBody) {
+    const contentType = getHeader(response.headers, "content-type") || "application/octet-stream";
+    result.body = validateContent(content, contentType, response.body as string, "response", result.errors);
+  } else if (Object.keys(content).length !== 0 && match.method.httpMethod !== "head") {
+    result.errors.push({ location: "body", pointer: "", message: "missing response body" });
+  }
+  return result;
+}